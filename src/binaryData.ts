@@ -0,0 +1,66 @@
+import { Buffer } from 'buffer';
+
+/**
+ * The binary data types which tags can be read from and written to
+ */
+export type BinaryData = Uint8Array | ArrayBuffer;
+
+/**
+ * The parts of a browser Blob or File which are used to read a tag from it
+ */
+export interface IBlob {
+	/**
+	 * The size of the blob in bytes
+	 */
+	size: number;
+
+	/**
+	 * Get a part of the blob without reading it
+	 * @param start - The position to start the part at
+	 * @param end - The position to end the part before
+	 * @returns The part of the blob
+	 */
+	slice(start?: number, end?: number): IBlob;
+
+	/**
+	 * Read the blob
+	 * @returns A promise which resolves to the data of the blob
+	 */
+	arrayBuffer(): Promise<ArrayBuffer>;
+}
+
+/**
+ * Handles the conversion between buffers and the other binary data types, so that the library can be used in browsers
+ */
+export default class BinaryDataConverter {
+	/**
+	 * Get a buffer which shares its memory with binary data
+	 * @param data - The buffer, Uint8Array or ArrayBuffer
+	 * @returns The buffer
+	 */
+	public static toBuffer(data: BinaryData): Buffer {
+		if(Buffer.isBuffer(data)) {
+			return data;
+		}
+
+		return data instanceof ArrayBuffer ? Buffer.from(data) : Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+	}
+
+	/**
+	 * Convert a buffer to the type of the binary data which it was created from
+	 * @param buffer - The buffer to convert
+	 * @param original - The binary data which was passed in
+	 * @returns The buffer as a Buffer, Uint8Array or ArrayBuffer, whichever the original data was
+	 */
+	public static matchType<T extends BinaryData>(buffer: Buffer, original: T): T {
+		if(Buffer.isBuffer(original)) {
+			return buffer as BinaryData as T;
+		}
+
+		if(original instanceof ArrayBuffer) {
+			return buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.length) as T;
+		}
+
+		return new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.length) as T;
+	}
+}
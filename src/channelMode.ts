@@ -0,0 +1,24 @@
+/**
+ * The channel mode of an MPEG audio frame
+ */
+export enum ChannelMode {
+	/**
+	 * Stereo
+	 */
+	Stereo = 0x00,
+
+	/**
+	 * Joint stereo
+	 */
+	JointStereo = 0x01,
+
+	/**
+	 * Dual channel, two independent mono channels
+	 */
+	DualChannel = 0x02,
+
+	/**
+	 * Single channel
+	 */
+	Mono = 0x03
+}
@@ -0,0 +1,49 @@
+/**
+ * The channel which a volume adjustment in an RVA2 frame applies to
+ */
+export enum ChannelType {
+	/**
+	 * Other
+	 */
+	Other = 0x00,
+
+	/**
+	 * Master volume
+	 */
+	MasterVolume = 0x01,
+
+	/**
+	 * Front right
+	 */
+	FrontRight = 0x02,
+
+	/**
+	 * Front left
+	 */
+	FrontLeft = 0x03,
+
+	/**
+	 * Back right
+	 */
+	BackRight = 0x04,
+
+	/**
+	 * Back left
+	 */
+	BackLeft = 0x05,
+
+	/**
+	 * Front centre
+	 */
+	FrontCentre = 0x06,
+
+	/**
+	 * Back centre
+	 */
+	BackCentre = 0x07,
+
+	/**
+	 * Subwoofer
+	 */
+	Subwoofer = 0x08
+}
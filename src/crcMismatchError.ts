@@ -0,0 +1,16 @@
+import ID3Error from "./id3Error";
+
+/**
+ * The CRC-32 in the extended header does not match the frames of the tag
+ */
+export default class CrcMismatchError extends ID3Error {
+	/**
+	 * Create an error
+	 * @param offset - The position of the tag header
+	 */
+	public constructor(offset: number){
+		super("The CRC-32 in the extended header does not match the frames of the tag", offset);
+
+		this.name = "CrcMismatchError";
+	}
+}
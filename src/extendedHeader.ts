@@ -0,0 +1,115 @@
+import { Buffer } from 'buffer';
+import { WritableVersion, IExtendedHeaderOptions } from "./options";
+import { calculateCrc32 } from "./utils";
+import ExtendedHeaderV230 from "./extendedHeaderV230";
+import ExtendedHeaderV240 from "./extendedHeaderV240";
+
+/**
+ * The restrictions which an encoder applied when it created an ID3v2.4.0 tag
+ */
+export interface ITagRestrictions {
+	/**
+	 * 0: No more than 128 frames and 1 MB total tag size
+	 * 1: No more than 64 frames and 128 KB total tag size
+	 * 2: No more than 32 frames and 40 KB total tag size
+	 * 3: No more than 32 frames and 4 KB total tag size
+	 */
+	tagSize: number;
+
+	/**
+	 * Whether strings are only encoded with ISO-8859-1 or UTF-8
+	 */
+	textEncoding: boolean;
+
+	/**
+	 * 0: No restrictions
+	 * 1: No string is longer than 1024 characters
+	 * 2: No string is longer than 128 characters
+	 * 3: No string is longer than 30 characters
+	 */
+	textFieldSize: number;
+
+	/**
+	 * Whether images are only encoded as PNG or JPEG
+	 */
+	imageEncoding: boolean;
+
+	/**
+	 * 0: No restrictions
+	 * 1: All images are 256x256 pixels or smaller
+	 * 2: All images are 64x64 pixels or smaller
+	 * 3: All images are exactly 64x64 pixels, unless required otherwise
+	 */
+	imageSize: number;
+}
+
+/**
+ * The information in an extended header
+ */
+export interface IExtendedHeader {
+	/**
+	 * The size of the extended header in bytes
+	 */
+	size: number;
+
+	/**
+	 * Whether the tag is an update of an earlier tag in the file, only in ID3v2.4.0
+	 */
+	isUpdate: boolean;
+
+	/**
+	 * The CRC-32 of the frames, if one is included
+	 */
+	crc?: number;
+
+	/**
+	 * Whether the CRC-32 matches the frames, if one is included
+	 */
+	crcValid?: boolean;
+
+	/**
+	 * The size of the padding after the frames, only in ID3v2.3.0
+	 */
+	paddingSize?: number;
+
+	/**
+	 * The restrictions which were applied when the tag was created, only in ID3v2.4.0
+	 */
+	restrictions?: ITagRestrictions;
+}
+
+/**
+ * Handles the reading and creation of the extended header, which follows the tag header if its flag is set
+ */
+export default class ExtendedHeader {
+	/**
+	 * Read the extended header
+	 * @param tagBody - The tag after its header, with the unsynchronisation of an ID3v2.3.0 tag removed
+	 * @param version - The ID3 version
+	 * @returns The extended header
+	 * @throws Error if the tag body is too short for the extended header, or its size is invalid
+	 */
+	public static read(tagBody: Buffer, version: number): IExtendedHeader {
+		return version === 4 ? ExtendedHeaderV240.read(tagBody) : ExtendedHeaderV230.read(tagBody);
+	}
+
+	/**
+	 * Create an extended header
+	 * @param options - Which information to include in the extended header
+	 * @param version - The ID3 version
+	 * @param frameData - The frames which follow the extended header, which the CRC-32 is calculated from
+	 * @param paddingSize - The size of the padding after the frames
+	 * @returns The extended header
+	 */
+	public static create(
+		options: IExtendedHeaderOptions,
+		version: WritableVersion,
+		frameData: Buffer,
+		paddingSize: number
+	): Buffer {
+		//The CRC-32 of ID3v2.3.0 excludes the padding, ID3v2.4.0 includes it
+		const crc = calculateCrc32(version === 4 ? Buffer.concat([ frameData, Buffer.alloc(paddingSize, 0) ]) : frameData);
+
+		return version === 4 ? ExtendedHeaderV240.create(options, crc) : ExtendedHeaderV230.create(options, crc, paddingSize);
+	}
+}
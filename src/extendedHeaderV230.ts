@@ -0,0 +1,70 @@
+import { Buffer } from 'buffer';
+import { IExtendedHeader } from "./extendedHeader";
+import { IExtendedHeaderOptions } from "./options";
+import { calculateCrc32, checkExtendedHeaderSize } from "./utils";
+
+/**
+ * The extended header flag of ID3v2.3.0 which signifies that CRC data is present
+ */
+const CRC_FLAG = 0x8000;
+
+/**
+ * The size of an ID3v2.3.0 extended header without CRC data, including its size bytes
+ */
+const MINIMUM_SIZE = 10;
+
+/**
+ * The size of the CRC data
+ */
+const CRC_SIZE = 4;
+
+/**
+ * Handles the ID3v2.3.0 extended header, which has a fixed layout and the size of the padding
+ */
+export default class ExtendedHeaderV230 {
+	/**
+	 * Read an ID3v2.3.0 extended header, the size of which excludes the size bytes
+	 * @param tagBody - The tag after its header, with the unsynchronisation removed
+	 * @returns The extended header
+	 * @throws Error if the tag body is too short for the extended header, or its size is invalid
+	 */
+	public static read(tagBody: Buffer): IExtendedHeader {
+		checkExtendedHeaderSize(tagBody, MINIMUM_SIZE, MINIMUM_SIZE);
+
+		const size = tagBody.readUInt32BE(0) + 4;
+		// tslint:disable-next-line: no-bitwise
+		const hasCrc = (tagBody.readUInt16BE(4) & CRC_FLAG) !== 0;
+
+		checkExtendedHeaderSize(tagBody, size, hasCrc ? MINIMUM_SIZE + CRC_SIZE : MINIMUM_SIZE);
+
+		const paddingSize = tagBody.readUInt32BE(6);
+		const extendedHeader: IExtendedHeader = { size, isUpdate: false, paddingSize };
+
+		if(hasCrc) {
+			extendedHeader.crc = tagBody.readUInt32BE(10);
+			extendedHeader.crcValid = calculateCrc32(tagBody.slice(size, tagBody.length - paddingSize)) === extendedHeader.crc;
+		}
+
+		return extendedHeader;
+	}
+
+	/**
+	 * Create an ID3v2.3.0 extended header
+	 * @param options - Whether to include the CRC-32
+	 * @param crc - The CRC-32 of the frames
+	 * @param paddingSize - The size of the padding after the frames
+	 * @returns The extended header
+	 */
+	public static create(options: IExtendedHeaderOptions, crc: number, paddingSize: number): Buffer {
+		const header = Buffer.alloc(options.crc ? MINIMUM_SIZE + CRC_SIZE : MINIMUM_SIZE, 0);
+		header.writeUInt32BE(header.length - 4, 0);
+		header.writeUInt16BE(options.crc ? CRC_FLAG : 0x0000, 4);
+		header.writeUInt32BE(paddingSize, 6);
+
+		if(options.crc) {
+			header.writeUInt32BE(crc, 10);
+		}
+
+		return header;
+	}
+}
@@ -0,0 +1,122 @@
+import { Buffer } from 'buffer';
+import { IExtendedHeader, ITagRestrictions } from "./extendedHeader";
+import { IExtendedHeaderOptions } from "./options";
+import { calculateCrc32, checkExtendedHeaderSize, encodeSyncsafeSize } from "./utils";
+
+/**
+ * The extended header flags of ID3v2.4.0
+ */
+const FLAGS = {
+	isUpdate: 0x40,
+	crc: 0x20,
+	restrictions: 0x10
+};
+
+/**
+ * The size of an ID3v2.4.0 extended header without flag data
+ */
+const MINIMUM_SIZE = 6;
+
+// tslint:disable: no-bitwise
+
+/**
+ * Handles the ID3v2.4.0 extended header, in which each set flag is followed by its data
+ */
+export default class ExtendedHeaderV240 {
+	/**
+	 * Read an ID3v2.4.0 extended header, the flags of which are each followed by their data
+	 * @param tagBody - The tag after its header
+	 * @returns The extended header
+	 * @throws Error if the tag body is too short for the extended header, or its size is invalid
+	 */
+	public static read(tagBody: Buffer): IExtendedHeader {
+		checkExtendedHeaderSize(tagBody, MINIMUM_SIZE, MINIMUM_SIZE);
+
+		const size = (tagBody[0] << 21) + (tagBody[1] << 14) + (tagBody[2] << 7) + tagBody[3];
+
+		checkExtendedHeaderSize(tagBody, size, MINIMUM_SIZE);
+		const flags = tagBody[5];
+		const extendedHeader: IExtendedHeader = { size, isUpdate: (flags & FLAGS.isUpdate) !== 0 };
+
+		//The data of each set flag starts with its length
+		let position = 6;
+
+		if(extendedHeader.isUpdate) {
+			position += tagBody[position] + 1;
+		}
+
+		if(flags & FLAGS.crc) {
+			const crc = tagBody.slice(position + 1, position + 6);
+
+			extendedHeader.crc = ((crc[0] * 0x10000000) + (crc[1] << 21) + (crc[2] << 14) + (crc[3] << 7) + crc[4]) >>> 0;
+			extendedHeader.crcValid = calculateCrc32(tagBody.slice(size)) === extendedHeader.crc;
+			position += tagBody[position] + 1;
+		}
+
+		if(flags & FLAGS.restrictions) {
+			extendedHeader.restrictions = this.decodeRestrictions(tagBody[position + 1]);
+		}
+
+		return extendedHeader;
+	}
+
+	/**
+	 * Create an ID3v2.4.0 extended header
+	 * @param options - Which information to include in the extended header
+	 * @param crc - The CRC-32 of the frames and the padding
+	 * @returns The extended header
+	 */
+	public static create(options: IExtendedHeaderOptions, crc: number): Buffer {
+		const flagData: number[] = [];
+		let flags = 0x00;
+
+		if(options.isUpdate) {
+			flags |= FLAGS.isUpdate;
+			flagData.push(0x00);
+		}
+
+		if(options.crc) {
+			//The CRC-32 is stored as a 35 bit syncsafe integer
+			flags |= FLAGS.crc;
+			flagData.push(0x05, crc >>> 28, ...encodeSyncsafeSize(crc));
+		}
+
+		if(options.restrictions !== undefined) {
+			flags |= FLAGS.restrictions;
+			flagData.push(0x01, this.encodeRestrictions(options.restrictions));
+		}
+
+		const header = Buffer.from([ 0, 0, 0, 0, 0x01, flags, ...flagData ]);
+		header.set(encodeSyncsafeSize(header.length), 0);
+
+		return header;
+	}
+
+	/**
+	 * Decode the restrictions byte, which is in the format %ppqrrstt
+	 * @param restrictions - The restrictions byte
+	 * @returns The restrictions
+	 */
+	private static decodeRestrictions(restrictions: number): ITagRestrictions {
+		return {
+			tagSize: (restrictions >> 6) & 0x03,
+			textEncoding: (restrictions & 0x20) !== 0,
+			textFieldSize: (restrictions >> 3) & 0x03,
+			imageEncoding: (restrictions & 0x04) !== 0,
+			imageSize: restrictions & 0x03
+		};
+	}
+
+	/**
+	 * Encode the restrictions into a byte in the format %ppqrrstt
+	 * @param restrictions - The restrictions
+	 * @returns The restrictions byte
+	 */
+	private static encodeRestrictions(restrictions: ITagRestrictions){
+		return ((restrictions.tagSize & 0x03) << 6) |
+			(restrictions.textEncoding ? 0x20 : 0x00) |
+			((restrictions.textFieldSize & 0x03) << 3) |
+			(restrictions.imageEncoding ? 0x04 : 0x00) |
+			(restrictions.imageSize & 0x03);
+	}
+}
@@ -0,0 +1,122 @@
+import { Buffer } from 'buffer';
+import { openSync, readSync, writeSync, closeSync, fstatSync, promises } from "fs";
+
+/**
+ * Handles reading and writing parts of a file, so that tags can be accessed without loading the audio
+ */
+export default class FileAccess {
+	/**
+	 * Get the size of a file
+	 * @param file - The path of the file
+	 * @returns The size of the file in bytes
+	 */
+	public static getSize(file: string){
+		return this.withFile(file, "r", descriptor => fstatSync(descriptor).size);
+	}
+
+	/**
+	 * Read a part of a file
+	 * @param file - The path of the file
+	 * @param position - The position in the file to start reading from
+	 * @param length - The number of bytes to read
+	 * @returns The bytes which were read, fewer than the length if the end of the file was reached
+	 */
+	public static read(file: string, position: number, length: number): Buffer {
+		return this.withFile(file, "r", descriptor => {
+			const data = Buffer.alloc(this.clampLength(fstatSync(descriptor).size, position, length));
+			const bytesRead = readSync(descriptor, data, 0, data.length, position);
+
+			return data.slice(0, bytesRead);
+		});
+	}
+
+	/**
+	 * Overwrite a part of a file, leaving the rest of it as it is
+	 * @param file - The path of the file
+	 * @param data - The data to write
+	 * @param position - The position in the file to write the data at, which may be the end of the file
+	 */
+	public static write(file: string, data: Buffer, position: number){
+		this.withFile(file, "r+", descriptor => writeSync(descriptor, data, 0, data.length, position));
+	}
+
+	/**
+	 * Get the size of a file asynchronously
+	 * @param file - The path of the file
+	 * @returns The size of the file in bytes
+	 */
+	public static async getSizeAsync(file: string){
+		return (await promises.stat(file)).size;
+	}
+
+	/**
+	 * Read a part of a file asynchronously
+	 * @param file - The path of the file
+	 * @param position - The position in the file to start reading from
+	 * @param length - The number of bytes to read
+	 * @returns The bytes which were read, fewer than the length if the end of the file was reached
+	 */
+	public static async readAsync(file: string, position: number, length: number): Promise<Buffer> {
+		return this.withFileAsync(file, "r", async handle => {
+			const data = Buffer.alloc(this.clampLength((await handle.stat()).size, position, length));
+			const { bytesRead } = await handle.read(data, 0, data.length, position);
+
+			return data.slice(0, bytesRead);
+		});
+	}
+
+	/**
+	 * Overwrite a part of a file asynchronously, leaving the rest of it as it is
+	 * @param file - The path of the file
+	 * @param data - The data to write
+	 * @param position - The position in the file to write the data at, which may be the end of the file
+	 */
+	public static async writeAsync(file: string, data: Buffer, position: number){
+		await this.withFileAsync(file, "r+", async handle => handle.write(data, 0, data.length, position));
+	}
+
+	/**
+	 * Limit the length of a read to the bytes which are left in a file, so that a corrupt size can't allocate a huge buffer
+	 * @param fileSize - The size of the file
+	 * @param position - The position in the file to start reading from
+	 * @param length - The number of bytes which were asked for
+	 * @returns The number of bytes to read
+	 */
+	private static clampLength(fileSize: number, position: number, length: number){
+		return Math.min(length, Math.max(0, fileSize - position));
+	}
+
+	/**
+	 * Open a file, making sure that it is closed again
+	 * @param file - The path of the file
+	 * @param flags - The flags to open the file with
+	 * @param callback - The function to call with the file descriptor
+	 * @returns The result of the callback
+	 */
+	private static withFile<T>(file: string, flags: string, callback: (descriptor: number) => T){
+		const descriptor = openSync(file, flags);
+
+		try {
+			return callback(descriptor);
+		} finally {
+			closeSync(descriptor);
+		}
+	}
+
+	/**
+	 * Open a file asynchronously, making sure that it is closed again
+	 * @param file - The path of the file
+	 * @param flags - The flags to open the file with
+	 * @param callback - The function to call with the file handle
+	 * @returns The result of the callback
+	 */
+	private static async withFileAsync<T>(file: string, flags: string, callback: (handle: promises.FileHandle) => Promise<T>){
+		const handle = await promises.open(file, flags);
+
+		try {
+			return await callback(handle);
+		} finally {
+			await handle.close();
+		}
+	}
+}
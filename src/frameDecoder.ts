@@ -1,15 +1,32 @@
-import { IDecodedFrame } from ".";
-import { Buffer } from 'buffer';
-import iconv from "iconv-lite";
 import Frames, {
 	IFrames,
 	SpecialFrameName,
 	V2SpecialFrameName,
 	FrameAlias,
 	SpecialFrameAlias,
-	IUserDefinedTextFrame
+	AllFrameAliases,
+	UrlFrameAlias,
+	IPictureFrame,
+	IUserDefinedUrlFrame,
+	ISynchronisedLyricsFrame,
+	IChapterFrame,
+	ITableOfContentsFrame,
+	IPopularimeterFrame,
+	IUniqueFileIdentifierFrame,
+	IPrivateFrame,
+	IChannelVolumeAdjustment,
+	IRelativeVolumeAdjustmentFrame,
+	IVolumeAdjustmentFrame,
+	IUnknownFrame,
+	MultipleValueFrameAlias
 } from "./frameDefinitions";
-import { printBuffer } from "./utils";
+import { IDecodingOptions } from "./readOptions";
+import { report } from "./id3Error";
+import InvalidFrameError from "./invalidFrameError";
+import FrameReader, { IDecodedFrame } from "./frameReader";
+import Genre from "./genre";
+import TextEncoding from "./textEncoding";
+import { decodeCounter } from "./utils";
 
 /**
  * A class which handles all of the decoding of
@@ -19,41 +36,131 @@ export default class FrameDecoder {
 	 * Decode an array of frames
 	 * @param frames - The frames to decode
 	 * @param version - The ID3 version to use for decoding
-	 * @returns The decoded frames
+	 * @param options - The options to read the frames with, which the problems in the frames are reported to
+	 * @returns The decoded frames, a frame which can't be decoded is kept as an unknown frame in lenient mode
 	 */
-	public static decodeFrames(frames: IDecodedFrame[], version: number){
+	public static decodeFrames(frames: IDecodedFrame[], version: number, options: IDecodingOptions){
 		const decodedFrames: IFrames = {};
 
-		for (const { frameName, body } of frames) {
-			if(frameName[0] === "T" && frameName !== "TXXX"){
-				const decoded = iconv.decode(body.slice(1), body[0] === 0x01 ? "utf16" : "ISO-8859-1").replace(/\0/g, "");
+		for (const frame of frames) {
+			try {
+				this.decodeFrame(decodedFrames, frame, version, options);
+			} catch(error) {
+				const { frameName, flags, body, offset, ...flagData } = frame;
 
-				const alias = Frames.convertNameToAlias(frameName) as FrameAlias;
+				report(new InvalidFrameError(
+					`The ${frameName} frame could not be decoded: ${(error as Error).message}`,
+					offset,
+					frameName
+				), options);
 
-				decodedFrames[alias] = decoded;
-			} else {
-				const decoded = this.readSpecialFrame(frameName as SpecialFrameName | V2SpecialFrameName, body, version);
+				this.addUnknownFrame(decodedFrames, { id: frameName, flags, body, ...flagData });
+			}
+		}
 
-				if(decoded === undefined){
-					continue;
-				}
+		return decodedFrames;
+	}
+
+	/**
+	 * Decode a frame and add it to the decoded frames
+	 * @param decodedFrames - The frames to add the frame to
+	 * @param frame - The frame to decode
+	 * @param version - The ID3 version to use for decoding
+	 * @param options - The options to read the frame with
+	 */
+	private static decodeFrame(decodedFrames: IFrames, frame: IDecodedFrame, version: number, options: IDecodingOptions){
+		const { frameName, flags, body, offset, ...flagData } = frame;
+
+		//Encrypted frames can't be decoded, so they are kept as they are
+		if(Frames.convertNameToAlias(frameName) as AllFrameAliases | undefined === undefined || flags.encryption){
+			this.addUnknownFrame(decodedFrames, { id: frameName, flags, body, ...flagData });
+		} else if(Frames.isTextFrame(frameName)){
+			const alias = Frames.convertNameToAlias(frameName) as FrameAlias;
 
-				const alias = Frames.convertNameToAlias(frameName) as SpecialFrameAlias;
+			// tslint:disable-next-line: no-any
+			(decodedFrames as {[key in FrameAlias]?: any})[alias] = this.readTextFrame(body, alias, version, options);
+		} else {
+			//The embedded frames of chapters are positioned relative to the body of the frame
+			const bodyOffset = offset + (version === 2 ? 6 : 10);
+			const decoded = Frames.isUrlFrame(frameName) ?
+				this.readUrlFrame(body) :
+				this.readSpecialFrame(frameName as SpecialFrameName | V2SpecialFrameName, body, version, options, bodyOffset);
 
-				if(Frames.canHaveMultipleEntries(frameName)){
-					if(!decodedFrames[alias]){
-						decodedFrames[alias as "userDefinedText"] = [] as IUserDefinedTextFrame[];
-					}
+			if(decoded === undefined){
+				this.addUnknownFrame(decodedFrames, { id: frameName, flags, body, ...flagData });
 
-					(decodedFrames[alias] as IUserDefinedTextFrame[]).push(decoded as IUserDefinedTextFrame);
-				} else {
-					// tslint:disable-next-line: no-any
-					decodedFrames[alias] = decoded as any;
+				return;
+			}
+
+			const alias = Frames.convertNameToAlias(frameName) as SpecialFrameAlias | UrlFrameAlias;
+			// tslint:disable-next-line: no-any
+			const entries = decodedFrames as {[key in SpecialFrameAlias | UrlFrameAlias]?: any};
+
+			if(Frames.canHaveMultipleEntries(frameName)){
+				if(!entries[alias]){
+					entries[alias] = [];
 				}
+
+				entries[alias].push(decoded);
+			} else {
+				entries[alias] = decoded;
 			}
 		}
+	}
 
-		return decodedFrames;
+	/**
+	 * Keep a frame which could not be decoded so that it can be written back
+	 * @param decodedFrames - The frames to add the unknown frame to
+	 * @param frame - The unknown frame
+	 */
+	private static addUnknownFrame(decodedFrames: IFrames, frame: IUnknownFrame){
+		if(!decodedFrames.unknownFrames){
+			decodedFrames.unknownFrames = [];
+		}
+
+		decodedFrames.unknownFrames.push(frame);
+	}
+
+	/**
+	 * Read a text frame
+	 * @param data - The buffer to read the frame from
+	 * @param alias - The alias of the frame
+	 * @param version - The ID3 version, ID3v2.4.0 separates values with a zero byte and earlier versions with a separator
+	 * @param options - The options which contain the separator
+	 * @returns The value, or an array of the values if the frame can have more than one and has more than one
+	 */
+	private static readTextFrame(data: Buffer, alias: FrameAlias, version: number, options: IDecodingOptions){
+		const separator = options.separator === undefined ? "/" : options.separator;
+		const text = TextEncoding.decode(data.slice(1), data[0]);
+
+		//Each UTF-16 value after the first starts with its own BOM
+		const allValues = text.split("\0").map(value => value.replace(/^\uFEFF/, ""));
+
+		//An empty value keeps its place in a pair, only the one after a terminator is dropped
+		if(Frames.pairFrames.includes(alias as MultipleValueFrameAlias)) {
+			const pairs = allValues[allValues.length - 1] === "" ? allValues.slice(0, -1) : allValues;
+
+			return pairs.length > 1 ? pairs : pairs.join("");
+		}
+
+		let values = allValues.filter(value => value !== "");
+
+		if(!Frames.multipleValueFrames.includes(alias as MultipleValueFrameAlias)) {
+			return values.join("/");
+		}
+
+		if(version < 4 && separator !== "") {
+			values = ([] as string[]).concat(...values.map(value => value.split(separator)))
+				.map(value => value.trim())
+				.filter(value => value !== "");
+		}
+
+		//The genre references the genre table
+		if(alias === "genre") {
+			values = Genre.resolve(values);
+		}
+
+		return values.length > 1 ? values : values.join("");
 	}
 
 	/**
@@ -61,9 +168,17 @@ export default class FrameDecoder {
 	 * @param frameName - The name of the frame to read
 	 * @param data - The buffer which this frame is in
 	 * @param version - The ID3 version
+	 * @param options - The options to read the frames which are embedded in the frame with
+	 * @param offset - The position of the frame body in the data which was read
 	 * @returns The frame value
 	 */
-	private static readSpecialFrame(frameName: SpecialFrameName | V2SpecialFrameName, data: Buffer, version: number){
+	private static readSpecialFrame(
+		frameName: SpecialFrameName | V2SpecialFrameName,
+		data: Buffer,
+		version: number,
+		options: IDecodingOptions,
+		offset: number
+	){
 		switch(frameName){
 			case "COMM":
 				return this.readSpecialTextFrame(data);
@@ -74,6 +189,32 @@ export default class FrameDecoder {
 				return this.readSpecialTextFrame(data);
 			case "TXXX":
 				return this.readUserDefinedTextFrame(data);
+			case "WXX":
+			case "WXXX":
+				return this.readUserDefinedUrlFrame(data);
+			case "SLT":
+			case "SYLT":
+				return this.readSynchronisedLyricsFrame(data);
+			case "CHAP":
+				return this.readChapterFrame(data, version, options, offset);
+			case "CTOC":
+				return this.readTableOfContentsFrame(data, version, options, offset);
+			case "POP":
+			case "POPM":
+				return this.readPopularimeterFrame(data);
+			case "CNT":
+			case "PCNT":
+				return decodeCounter(data);
+			case "UFI":
+			case "UFID":
+				return this.readUniqueFileIdentifierFrame(data);
+			case "PRIV":
+				return this.readPrivateFrame(data);
+			case "RVA2":
+				return this.readRelativeVolumeAdjustmentFrame(data);
+			case "RVA":
+			case "RVAD":
+				return this.readVolumeAdjustmentFrame(data);
 
 			default:
 				return undefined;
@@ -81,84 +222,406 @@ export default class FrameDecoder {
 	}
 
 	/**
-	 * Read a comment frame
+	 * Read a comment or unsynchronised lyrics frame
 	 * @param data - The frame to read
 	 * @returns The comments data
 	 */
 	private static readSpecialTextFrame(data: Buffer){
-		if(data[0] === 0x00) {
-			return {
-				language: iconv.decode(data, "ISO-8859-1").substring(1, 4).replace(/\0/g, ""),
-				shortText: iconv.decode(data, "ISO-8859-1").substring(4, data.indexOf(0x00, 1)).replace(/\0/g, ""),
-				text: iconv.decode(data, "ISO-8859-1").substring(data.indexOf(0x00, 1) + 1).replace(/\0/g, "")
-			};
-		} else if(data[0] === 0x01) {
-			let i = 0;
+		const shortText = this.readTerminatedString(data, 4, data[0]);
 
-			// tslint:disable-next-line: curly strict-type-predicates
-			for(i; data[i] !== undefined && data[i] !== 0x00 || data[i + 1] !== 0x00 || data[i + 2] === 0x00; i++);
+		if(!shortText.isTerminated) {
+			throw new Error("The descriptor is not terminated");
+		}
+
+		return {
+			language: data.toString("latin1", 1, 4).replace(/\0/g, ""),
+			shortText: shortText.text.replace(/\0/g, ""),
+			text: TextEncoding.decode(data.slice(shortText.end), data[0]).replace(/\0/g, "")
+		};
+	}
 
-			// tslint:disable-next-line: strict-type-predicates
-			if(data[i] === undefined) {
-				return {};
+	/**
+	 * Read an image frame
+	 * @param data - The buffer to read the frame from
+	 * @param version - The ID3 tag version, v2.2.0 uses a three character image format instead of a MIME type
+	 * @returns The image
+	 */
+	private static readImageFrame(data: Buffer, version: number): IPictureFrame {
+		const mimeEnd = version === 2 ? 4 : this.indexOfOrEnd(data, 0x00, 1);
+		const mime = version === 2 ?
+			this.convertImageFormatToMime(data.toString("latin1", 1, 4)) :
+			data.toString("latin1", 1, mimeEnd);
+
+		//The MIME type is null terminated, the v2.2.0 image format is not
+		const typeOffset = version === 2 ? mimeEnd : mimeEnd + 1;
+		const description = this.readTerminatedString(data, typeOffset + 1, data[0]);
+
+		return {
+			mime,
+			type: data[typeOffset],
+			description: description.text,
+			data: data.slice(description.end)
+		};
+	}
+
+	/**
+	 * Read a URL link frame
+	 * @param data - The buffer to read the frame from
+	 * @returns The URL, which is always ISO-8859-1 encoded
+	 */
+	private static readUrlFrame(data: Buffer){
+		return data.toString("latin1", 0, this.indexOfOrEnd(data, 0x00, 0));
+	}
+
+	/**
+	 * Read a user defined URL link frame
+	 * @param data - The buffer to read the frame from
+	 * @returns The user defined URL link, the encoding byte only applies to the description
+	 */
+	private static readUserDefinedUrlFrame(data: Buffer): IUserDefinedUrlFrame {
+		const description = this.readTerminatedString(data, 1, data[0]);
+
+		return {
+			description: description.text,
+			url: this.readUrlFrame(data.slice(description.end))
+		};
+	}
+
+	/**
+	 * Read a synchronised lyrics frame
+	 * @param data - The buffer to read the frame from
+	 * @returns The synchronised lyrics, each line of text is followed by its four byte timestamp
+	 */
+	private static readSynchronisedLyricsFrame(data: Buffer): ISynchronisedLyricsFrame {
+		const description = this.readTerminatedString(data, 6, data[0]);
+		const lyrics = [];
+
+		let position = description.end;
+		while(position < data.length) {
+			const line = this.readTerminatedString(data, position, data[0]);
+
+			if(line.end + 4 > data.length) {
+				break;
 			}
 
-			return {
-				language: data.toString().substring(1, 4).replace(/\0/g, ""),
-				shortText: iconv.decode(data.slice(4, i), "utf16").replace(/\0/g, ""),
-				text: iconv.decode(data.slice(i + 2), "utf16").replace(/\0/g, "")
-			};
+			lyrics.push({ text: line.text, timestamp: data.readUInt32BE(line.end) });
+			position = line.end + 4;
 		}
 
-		return {};
+		return {
+			language: data.toString("latin1", 1, 4),
+			timestampFormat: data[4],
+			contentType: data[5],
+			description: description.text,
+			lyrics
+		};
 	}
 
 	/**
-	 * Read an image frame
+	 * Read a chapter frame
 	 * @param data - The buffer to read the frame from
-	 * @param version - The ID3 tag version, changes the encoding of the image
-	 * @returns The image
+	 * @param version - The ID3 version, which the embedded frames are read with
+	 * @param options - The options to read the embedded frames with
+	 * @param offset - The position of the body in the data which was read
+	 * @returns The chapter, a byte offset of 0xFFFFFFFF means that the offset is not set
 	 */
-	private static readImageFrame(data: Buffer, version: number){
-		const descOffset = version === 2 ? 5 : data.indexOf(0x00, 1) + 2;
+	private static readChapterFrame(data: Buffer, version: number, options: IDecodingOptions, offset: number): IChapterFrame {
+		const elementId = this.readTerminatedString(data, 0, 0x00);
+		const chapter: IChapterFrame = {
+			elementId: elementId.text,
+			startTime: data.readUInt32BE(elementId.end),
+			endTime: data.readUInt32BE(elementId.end + 4)
+		};
+
+		const startOffset = data.readUInt32BE(elementId.end + 8);
+		const endOffset = data.readUInt32BE(elementId.end + 12);
 
-		const descEnd = data[0] === 0x00 ?
-			data.indexOf(0x00, descOffset) :
-			descOffset + data.slice(descOffset).indexOf("0000", 0, "hex") + 2;
+		if(startOffset !== 0xFFFFFFFF) {
+			chapter.startOffset = startOffset;
+		}
+
+		if(endOffset !== 0xFFFFFFFF) {
+			chapter.endOffset = endOffset;
+		}
 
-		return data.slice(descEnd === 0 ? descEnd + 1 : 5);
+		return this.readEmbeddedFrames(chapter, data, elementId.end + 16, version, options, offset);
 	}
 
 	/**
-	 * Read a user defined text frame
-	 * @param data - The buffer to read this frame from
-	 * @returns The user defined text frame
+	 * Read a table of contents frame
+	 * @param data - The buffer to read the frame from
+	 * @param version - The ID3 version, which the embedded frames are read with
+	 * @param options - The options to read the embedded frames with
+	 * @param offset - The position of the body in the data which was read
+	 * @returns The table of contents
 	 */
-	private static readUserDefinedTextFrame(data: Buffer){
-		printBuffer(data);
+	private static readTableOfContentsFrame(
+		data: Buffer,
+		version: number,
+		options: IDecodingOptions,
+		offset: number
+	): ITableOfContentsFrame {
+		const elementId = this.readTerminatedString(data, 0, 0x00);
+		const flags = data[elementId.end];
+		const entryCount = data[elementId.end + 1];
+		const childElementIds = [];
 
-		if(data[0] === 0x00) {
-			return {
-				description: iconv.decode(data, "ISO-8859-1").substring(1, data.indexOf(0x00, 1)).replace(/\0/g, ""),
-				value: iconv.decode(data, "ISO-8859-1").substring(data.indexOf(0x00, 1) + 1).replace(/\0/g, "")
-			};
-		} else if(data[0] === 0x01) {
-			let i = 0;
+		let position = elementId.end + 2;
+		for(let i = 0; i < entryCount && position < data.length; i++) {
+			const childElementId = this.readTerminatedString(data, position, 0x00);
+
+			childElementIds.push(childElementId.text);
+			position = childElementId.end;
+		}
 
-			// tslint:disable-next-line: curly strict-type-predicates
-			for(i; data[i] !== undefined && data[i] !== 0x00 || data[i + 1] !== 0x00 || data[i + 2] === 0x00; i++);
+		const tableOfContents: ITableOfContentsFrame = {
+			elementId: elementId.text,
+			// tslint:disable: no-bitwise
+			isTopLevel: (flags & 0x02) !== 0,
+			isOrdered: (flags & 0x01) !== 0,
+			// tslint:enable: no-bitwise
+			childElementIds
+		};
+
+		return this.readEmbeddedFrames(tableOfContents, data, position, version, options, offset);
+	}
 
-			// tslint:disable-next-line: strict-type-predicates
-			if(data[i] === undefined) {
-				return {};
+	/**
+	 * Read a popularimeter frame
+	 * @param data - The buffer to read the frame from
+	 * @returns The popularimeter, the counter may be left out of the frame
+	 */
+	private static readPopularimeterFrame(data: Buffer): IPopularimeterFrame {
+		const email = this.readTerminatedString(data, 0, 0x00);
+		const popularimeter: IPopularimeterFrame = {
+			email: email.text,
+			rating: email.end < data.length ? data[email.end] : 0
+		};
+
+		if(email.end + 1 < data.length) {
+			popularimeter.counter = decodeCounter(data.slice(email.end + 1));
+		}
+
+		return popularimeter;
+	}
+
+	/**
+	 * Read a unique file identifier frame
+	 * @param data - The buffer to read the frame from
+	 * @returns The unique file identifier
+	 */
+	private static readUniqueFileIdentifierFrame(data: Buffer): IUniqueFileIdentifierFrame {
+		const owner = this.readTerminatedString(data, 0, 0x00);
+
+		return {
+			owner: owner.text,
+			identifier: data.slice(owner.end)
+		};
+	}
+
+	/**
+	 * Read a private frame
+	 * @param data - The buffer to read the frame from
+	 * @returns The private data
+	 */
+	private static readPrivateFrame(data: Buffer): IPrivateFrame {
+		const owner = this.readTerminatedString(data, 0, 0x00);
+
+		return {
+			owner: owner.text,
+			data: data.slice(owner.end)
+		};
+	}
+
+	/**
+	 * Read an ID3v2.4.0 relative volume adjustment frame
+	 * @param data - The buffer to read the frame from
+	 * @returns The relative volume adjustment, each channel has an adjustment in 1/512 dB and a peak of any number of bits
+	 */
+	private static readRelativeVolumeAdjustmentFrame(data: Buffer): IRelativeVolumeAdjustmentFrame {
+		const identification = this.readTerminatedString(data, 0, 0x00);
+		const channels: IChannelVolumeAdjustment[] = [];
+
+		let position = identification.end;
+		while(position + 4 <= data.length) {
+			const peakBits = data[position + 3];
+			const peakEnd = position + 4 + Math.ceil(peakBits / 8);
+
+			if(peakEnd > data.length) {
+				break;
 			}
 
-			return {
-				description: iconv.decode(data.slice(1, i), "utf16").replace(/\0/g, ""),
-				value: iconv.decode(data.slice(i + 2), "utf16").replace(/\0/g, "")
+			const channel: IChannelVolumeAdjustment = {
+				channelType: data[position],
+				volumeAdjustment: data.readInt16BE(position + 1) / 512
 			};
+
+			//The peak is a fraction of full scale, which is the largest value of a signed integer of its bits
+			if(peakBits > 0) {
+				channel.peak = this.readUnsignedInteger(data.slice(position + 4, peakEnd)) / Math.pow(2, peakBits - 1);
+			}
+
+			channels.push(channel);
+			position = peakEnd;
+		}
+
+		return {
+			identification: identification.text,
+			channels
+		};
+	}
+
+	/**
+	 * Read an ID3v2.3.0 or ID3v2.2.0 relative volume adjustment frame
+	 * @param data - The buffer to read the frame from
+	 * @returns The relative volume adjustment, the increment flags are applied to the adjustments
+	 */
+	private static readVolumeAdjustmentFrame(data: Buffer): IVolumeAdjustmentFrame {
+		const increments = data[0];
+		const bits = data[1];
+		const size = Math.ceil(bits / 8);
+
+		//Each pair of channels is followed by their peaks, the back, centre and bass channels are optional
+		const groups: Array<Array<Exclude<keyof IVolumeAdjustmentFrame, "bits">>> = [
+			[ "right", "left" ],
+			[ "rightBack", "leftBack" ],
+			[ "centre" ],
+			[ "bass" ]
+		];
+
+		const volumeAdjustment: IVolumeAdjustmentFrame = {
+			bits,
+			right: { adjustment: 0, peak: 0 },
+			left: { adjustment: 0, peak: 0 }
+		};
+
+		let position = 2;
+		let channelIndex = 0;
+		for(const group of groups) {
+			if(position + group.length * size * 2 > data.length) {
+				break;
+			}
+
+			group.forEach((channel, index) => {
+				const adjustment = this.readUnsignedInteger(data.slice(position + index * size, position + (index + 1) * size));
+				const peakPosition = position + (group.length + index) * size;
+
+				volumeAdjustment[channel] = {
+					// tslint:disable-next-line: no-bitwise
+					adjustment: increments & (1 << (channelIndex + index)) ? adjustment : -adjustment,
+					peak: this.readUnsignedInteger(data.slice(peakPosition, peakPosition + size))
+				};
+			});
+
+			position += group.length * size * 2;
+			channelIndex += group.length;
+		}
+
+		return volumeAdjustment;
+	}
+
+	/**
+	 * Read a big-endian unsigned integer of any number of bytes
+	 * @param data - The bytes of the integer
+	 * @returns The integer, which loses precision if it is larger than Number.MAX_SAFE_INTEGER
+	 */
+	private static readUnsignedInteger(data: Buffer){
+		return data.reduce((value, byte) => value * 256 + byte, 0);
+	}
+
+	/**
+	 * Read the frames which are embedded at the end of a chapter or table of contents frame
+	 * @param frame - The chapter or table of contents to add the frames to
+	 * @param data - The body of the frame
+	 * @param start - The position of the embedded frames in the body
+	 * @param version - The ID3 version
+	 * @param options - The options to read the frames with
+	 * @param offset - The position of the body in the data which was read
+	 * @returns The chapter or table of contents, with the frames if there are any
+	 */
+	private static readEmbeddedFrames<T extends IChapterFrame | ITableOfContentsFrame>(
+		frame: T,
+		data: Buffer,
+		start: number,
+		version: number,
+		options: IDecodingOptions,
+		offset: number
+	){
+		if(start < data.length) {
+			frame.frames = this.decodeFrames(FrameReader.readFrames(data, version, false, options, start, offset), version, options);
+		}
+
+		return frame;
+	}
+
+	/**
+	 * Convert a v2.2.0 image format, e.g. "JPG" to a MIME type
+	 * @param format - The image format
+	 * @returns The MIME type
+	 */
+	private static convertImageFormatToMime(format: string){
+		switch(format.toUpperCase()){
+			case "JPG":
+				return "image/jpeg";
+
+			case "-->":
+				return format;
+
+			default:
+				return `image/${format.toLowerCase()}`;
+		}
+	}
+
+	/**
+	 * Read a string which is terminated by a null character in the passed encoding
+	 * @param data - The buffer to read the string from
+	 * @param offset - The position the string starts at
+	 * @param encoding - The text encoding byte, UTF-16 and UTF-16BE strings are terminated by two zero bytes
+	 * @returns The string, the position after its terminator and whether the terminator was found
+	 */
+	private static readTerminatedString(data: Buffer, offset: number, encoding: number){
+		const terminatorSize = TextEncoding.getTerminatorSize(encoding);
+
+		let end = offset;
+		while(end < data.length && (data[end] !== 0x00 || (terminatorSize === 2 && data[end + 1] !== 0x00))) {
+			end += terminatorSize;
+		}
+
+		return {
+			text: TextEncoding.decode(data.slice(offset, end), encoding),
+			end: Math.min(end + terminatorSize, data.length),
+			isTerminated: end < data.length
+		};
+	}
+
+	/**
+	 * Find the position of a byte, or the end of the buffer if the byte is not in it
+	 * @param data - The buffer to search
+	 * @param value - The byte to search for
+	 * @param offset - The position to start searching at
+	 * @returns The position of the byte
+	 */
+	private static indexOfOrEnd(data: Buffer, value: number, offset: number){
+		const index = data.indexOf(value, offset);
+
+		return index === -1 ? data.length : index;
+	}
+
+	/**
+	 * Read a user defined text frame
+	 * @param data - The buffer to read this frame from
+	 * @returns The user defined text frame
+	 */
+	private static readUserDefinedTextFrame(data: Buffer){
+		const description = this.readTerminatedString(data, 1, data[0]);
+
+		if(!description.isTerminated) {
+			throw new Error("The description is not terminated");
 		}
 
-		return undefined;
+		return {
+			description: description.text.replace(/\0/g, ""),
+			value: TextEncoding.decode(data.slice(description.end), data[0]).replace(/\0/g, "")
+		};
 	}
 }
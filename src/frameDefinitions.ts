@@ -1,22 +1,55 @@
 import { flipObject } from "./utils";
-import { Buffer } from 'buffer';
+import { PictureType } from "./pictureType";
+import { TimestampFormat } from "./timestampFormat";
+import { SynchronisedTextType } from "./synchronisedTextType";
+import { ChannelType } from "./channelType";
+import { IFrameFlags } from "./frameFlags";
+import { IFrameFlagData } from "./frameFlagData";
 
-export type V2FrameName = "TAL" | "TBP" | "TCM" | "TCO" | "TCR" | "TDA" | "TDY" | "TEN" | "TXT" | "TFT" | "TIM" | "TT1" | "TT2" | "TT3" | "TKE" | "TLA" | "TLE" | "TMT" | "TOT" | "TOF" | "TOL" | "TOA" | "TOR" | "TP1" | "TP2" | "TP3" | "TP4" | "TPA" | "TPB" | "TRK" | "TRD" | "TSI" | "TRC" | "TSS" | "TYE";
-export type V2FrameAlias = "album" | "bpm" | "composer" | "genre" | "copyright" | "date" | "playlistDelay" | "encodedBy" | "textWriter" | "fileType" | "time" | "contentGroup" | "title" | "subtitle" | "initialKey" | "language" | "length" | "mediaType" | "originalTitle" | "originalFilename" | "originalTextwriter" | "originalArtist" | "originalYear" | "artist" | "performerInfo" | "conductor" | "remixArtist" | "partOfSet" | "publisher" | "trackNumber" | "recordingDates" | "size" | "ISRC" | "encodingTechnology" | "year";
+export type V2FrameName = "TAL" | "TBP" | "TCM" | "TCO" | "TCR" | "TDA" | "TDY" | "TEN" | "TXT" | "TFT" | "TIM" | "TT1" | "TT2" | "TT3" | "TKE" | "TLA" | "TLE" | "TMT" | "TOT" | "TOF" | "TOL" | "TOA" | "TOR" | "TP1" | "TP2" | "TP3" | "TP4" | "TPA" | "TPB" | "TRK" | "TRD" | "TSI" | "TRC" | "TSS" | "TYE" | "IPL";
+export type V2FrameAlias = "album" | "bpm" | "composer" | "genre" | "copyright" | "date" | "playlistDelay" | "encodedBy" | "textWriter" | "fileType" | "time" | "contentGroup" | "title" | "subtitle" | "initialKey" | "language" | "length" | "mediaType" | "originalTitle" | "originalFilename" | "originalTextwriter" | "originalArtist" | "originalYear" | "artist" | "performerInfo" | "conductor" | "remixArtist" | "partOfSet" | "publisher" | "trackNumber" | "recordingDates" | "size" | "ISRC" | "encodingTechnology" | "year" | "involvedPeopleList";
 
-export type V2SpecialFrameName = "PIC";
-export type V2SpecialFrameAlias = "image"
+export type V2SpecialFrameName = "PIC" | "WXX" | "SLT" | "POP" | "CNT" | "UFI" | "RVA";
+export type V2SpecialFrameAlias = "image" | "userDefinedUrl" | "synchronisedLyrics" | "popularimeter" | "playCounter" |
+	"uniqueFileIdentifier" | "volumeAdjustment";
 
-export type FrameAlias = "album" | "bpm" | "composer" | "genre" | "copyright" | "date" | "playlistDelay" | "encodedBy" | "textWriter" | "fileType" | "time" | "contentGroup" | "title" | "subtitle" | "initialKey" | "language" | "length" | "mediaType" | "originalTitle" | "originalFilename" | "originalTextwriter" | "originalArtist" | "originalYear" | "fileOwner" | "artist" | "performerInfo" | "conductor" | "remixArtist" | "partOfSet" | "publisher" | "trackNumber" | "recordingDates" | "internetRadioName" | "internetRadioOwner" | "size" | "ISRC" | "encodingTechnology" | "year";
-export type FrameName = "TALB" | "TBPM" | "TCOM" | "TCON" | "TCOP" | "TDAT" | "TDLY" | "TENC" | "TEXT" | "TFLT" | "TIME" | "TIT1" | "TIT2" | "TIT3" | "TKEY" | "TLAN" | "TLEN" | "TMED" | "TOAL" | "TOFN" | "TOLY" | "TOPE" | "TORY" | "TOWN" | "TPE1" | "TPE2" | "TPE3" | "TPE4" | "TPOS" | "TPUB" | "TRCK" | "TRDA" | "TRSN" | "TRSO" | "TSIZ" | "TSRC" | "TSSE" | "TYER";
+export type V2UrlFrameName = "WAF" | "WAR" | "WAS" | "WCM" | "WCP" | "WPB";
+export type V2UrlFrameAlias = "fileUrl" | "artistUrl" | "audioSourceUrl" | "commercialUrl" | "copyrightUrl" | "publisherUrl";
 
-export type SpecialFrameName = "COMM" | "APIC" | "USLT" | "TXXX";
-export type SpecialFrameAlias = "comment" | "image" | "unsynchronisedLyrics" | "userDefinedText";
+export type FrameAlias = "album" | "bpm" | "composer" | "genre" | "copyright" | "date" | "playlistDelay" | "encodedBy" | "textWriter" | "fileType" | "time" | "contentGroup" | "title" | "subtitle" | "initialKey" | "language" | "length" | "mediaType" | "originalTitle" | "originalFilename" | "originalTextwriter" | "originalArtist" | "originalYear" | "fileOwner" | "artist" | "performerInfo" | "conductor" | "remixArtist" | "partOfSet" | "publisher" | "trackNumber" | "recordingDates" | "internetRadioName" | "internetRadioOwner" | "size" | "ISRC" | "encodingTechnology" | "year" | "involvedPeopleList" | "encodingTime" | "originalReleaseTime" | "recordingTime" | "releaseTime" | "taggingTime" | "involvedPeople" | "musicianCredits" | "mood" | "producedNotice" | "albumSortOrder" | "performerSortOrder" | "titleSortOrder" | "setSubtitle";
+export type FrameName = "TALB" | "TBPM" | "TCOM" | "TCON" | "TCOP" | "TDAT" | "TDLY" | "TENC" | "TEXT" | "TFLT" | "TIME" | "TIT1" | "TIT2" | "TIT3" | "TKEY" | "TLAN" | "TLEN" | "TMED" | "TOAL" | "TOFN" | "TOLY" | "TOPE" | "TORY" | "TOWN" | "TPE1" | "TPE2" | "TPE3" | "TPE4" | "TPOS" | "TPUB" | "TRCK" | "TRDA" | "TRSN" | "TRSO" | "TSIZ" | "TSRC" | "TSSE" | "TYER" | "IPLS" | "TDEN" | "TDOR" | "TDRC" | "TDRL" | "TDTG" | "TIPL" | "TMCL" | "TMOO" | "TPRO" | "TSOA" | "TSOP" | "TSOT" | "TSST";
 
-export type AllFrameNames = V2FrameName | FrameName | SpecialFrameName | V2SpecialFrameName;
-export type AllFrameAliases = V2FrameAlias | FrameAlias | SpecialFrameAlias | V2SpecialFrameAlias;
+export type UrlFrameName = "WCOM" | "WCOP" | "WOAF" | "WOAR" | "WOAS" | "WORS" | "WPAY" | "WPUB";
+export type UrlFrameAlias = "commercialUrl" | "copyrightUrl" | "fileUrl" | "artistUrl" | "audioSourceUrl" |
+	"radioStationUrl" | "paymentUrl" | "publisherUrl";
 
-type TextFrames = {[key in FrameAlias]?: string};
+export type SpecialFrameName = "COMM" | "APIC" | "USLT" | "TXXX" | "WXXX" | "SYLT" | "CHAP" | "CTOC" | "POPM" | "PCNT" |
+	"UFID" | "PRIV" | "RVA2" | "RVAD";
+export type SpecialFrameAlias = "comment" | "image" | "unsynchronisedLyrics" | "userDefinedText" | "userDefinedUrl" |
+	"synchronisedLyrics" | "chapter" | "tableOfContents" | "popularimeter" | "playCounter" | "uniqueFileIdentifier" |
+	"private" | "relativeVolumeAdjustment" | "volumeAdjustment";
+
+export type AllFrameNames = V2FrameName | FrameName | SpecialFrameName | V2SpecialFrameName | UrlFrameName | V2UrlFrameName;
+export type AllFrameAliases = V2FrameAlias | FrameAlias | SpecialFrameAlias | V2SpecialFrameAlias | UrlFrameAlias |
+	V2UrlFrameAlias;
+
+/**
+ * The text frames which commonly have more than one value, e.g. more than one artist
+ */
+export type MultipleValueFrameAlias = "artist" | "performerInfo" | "conductor" | "remixArtist" | "composer" |
+	"textWriter" | "originalArtist" | "originalTextwriter" | "genre" | "language" | "involvedPeople" | "musicianCredits" |
+	"involvedPeopleList";
+
+type TextFrames = {[key in Exclude<FrameAlias, MultipleValueFrameAlias>]?: string} &
+	{[key in MultipleValueFrameAlias]?: string[] | string};
+
+/**
+ * The URL frames which there can be more than one of, as a file can be sold or performed in more than one place
+ */
+type MultipleUrlFrameAlias = "commercialUrl" | "artistUrl";
+
+type UrlFrames = {[key in Exclude<UrlFrameAlias, MultipleUrlFrameAlias>]?: string} &
+	{[key in MultipleUrlFrameAlias]?: string[] | string};
 
 /**
  * A special text frame
@@ -53,29 +86,394 @@ export interface IUserDefinedTextFrame {
 	value: string;
 }
 
+/**
+ * A user defined URL link
+ */
+export interface IUserDefinedUrlFrame {
+	/**
+	 * The descriptor
+	 */
+	description: string;
+
+	/**
+	 * The URL
+	 */
+	url: string;
+}
+
+/**
+ * A line of synchronised text
+ */
+export interface ISynchronisedText {
+	/**
+	 * The text
+	 */
+	text: string;
+
+	/**
+	 * The time at which the text starts, in the unit of the timestamp format of the frame
+	 */
+	timestamp: number;
+}
+
+/**
+ * Synchronised lyrics or other text which is timed to the audio
+ */
+export interface ISynchronisedLyricsFrame {
+	/**
+	 * The three character ISO-639-2 language code of the text, e.g. eng
+	 */
+	language: string;
+
+	/**
+	 * The unit of the timestamps
+	 */
+	timestampFormat: TimestampFormat;
+
+	/**
+	 * The type of the text
+	 */
+	contentType: SynchronisedTextType;
+
+	/**
+	 * The content descriptor
+	 */
+	description: string;
+
+	/**
+	 * The lines of text in the order of their timestamps
+	 */
+	lyrics: ISynchronisedText[];
+}
+
+/**
+ * A chapter, which is a part of the audio with its own frames, e.g. a title and a picture
+ */
+export interface IChapterFrame {
+	/**
+	 * The ID of the chapter, which is unique within the tag and referenced by tables of contents
+	 */
+	elementId: string;
+
+	/**
+	 * The time at which the chapter starts, in milliseconds
+	 */
+	startTime: number;
+
+	/**
+	 * The time at which the chapter ends, in milliseconds
+	 */
+	endTime: number;
+
+	/**
+	 * The position in the file of the first byte of the chapter, counted from the end of the tag
+	 */
+	startOffset?: number;
+
+	/**
+	 * The position in the file of the first byte after the chapter, counted from the end of the tag
+	 */
+	endOffset?: number;
+
+	/**
+	 * The frames which describe the chapter, e.g. title, subtitle, userDefinedUrl and image
+	 */
+	frames?: IFrames;
+}
+
+/**
+ * A table of contents, which lists chapters or other tables of contents
+ */
+export interface ITableOfContentsFrame {
+	/**
+	 * The ID of the table of contents, which is unique within the tag
+	 */
+	elementId: string;
+
+	/**
+	 * Whether this is the root of the tables of contents, there should be only one
+	 */
+	isTopLevel: boolean;
+
+	/**
+	 * Whether the children should be played in the order in which they are listed
+	 */
+	isOrdered: boolean;
+
+	/**
+	 * The element IDs of the chapters and tables of contents which are part of this table of contents
+	 */
+	childElementIds: string[];
+
+	/**
+	 * The frames which describe the table of contents, e.g. title
+	 */
+	frames?: IFrames;
+}
+
+/**
+ * A rating and play count of the file, kept by a player for its user
+ */
+export interface IPopularimeterFrame {
+	/**
+	 * The email address of the user, which identifies the entry
+	 */
+	email: string;
+
+	/**
+	 * The rating from 1 (worst) to 255 (best), 0 is unknown
+	 */
+	rating: number;
+
+	/**
+	 * The number of times the file has been played, a bigint if it is larger than Number.MAX_SAFE_INTEGER
+	 */
+	counter?: number | bigint;
+}
+
+/**
+ * An identifier of the file in a database, e.g. a MusicBrainz recording ID
+ */
+export interface IUniqueFileIdentifierFrame {
+	/**
+	 * The URL of the organisation which is responsible for the database, which identifies the entry
+	 */
+	owner: string;
+
+	/**
+	 * The identifier, up to 64 bytes
+	 */
+	identifier: Buffer;
+}
+
+/**
+ * Data which an application stores in the tag for its own use
+ */
+export interface IPrivateFrame {
+	/**
+	 * The URL or other identifier of the owner of the data, e.g. WM/MediaClassPrimaryID
+	 */
+	owner: string;
+
+	/**
+	 * The binary data
+	 */
+	data: Buffer;
+}
+
+/**
+ * The volume adjustment of a channel in an RVA2 frame
+ */
+export interface IChannelVolumeAdjustment {
+	/**
+	 * The channel which the adjustment applies to
+	 */
+	channelType: ChannelType;
+
+	/**
+	 * The volume adjustment in decibels, from -64 to +64 with a precision of 1/512 dB
+	 */
+	volumeAdjustment: number;
+
+	/**
+	 * The peak volume as a fraction of full scale, if it is known
+	 */
+	peak?: number;
+}
+
+/**
+ * A relative volume adjustment of ID3v2.4.0, e.g. the ReplayGain of the track or the album
+ */
+export interface IRelativeVolumeAdjustmentFrame {
+	/**
+	 * The situation which the adjustment is for, e.g. track or album, which identifies the entry
+	 */
+	identification: string;
+
+	/**
+	 * The adjustment of each channel
+	 */
+	channels: IChannelVolumeAdjustment[];
+}
+
+/**
+ * The volume adjustment of a channel in an RVAD frame, in the unit of the bits of the frame
+ */
+export interface IVolumeAdjustment {
+	/**
+	 * The relative volume change, which is negative for a decrement
+	 */
+	adjustment: number;
+
+	/**
+	 * The peak volume
+	 */
+	peak: number;
+}
+
+/**
+ * A relative volume adjustment of ID3v2.3.0, which is the same in ID3v2.2.0
+ */
+export interface IVolumeAdjustmentFrame {
+	/**
+	 * The number of bits which each value is stored with, usually 16
+	 */
+	bits: number;
+
+	/**
+	 * The adjustment of the right channel
+	 */
+	right: IVolumeAdjustment;
+
+	/**
+	 * The adjustment of the left channel
+	 */
+	left: IVolumeAdjustment;
+
+	/**
+	 * The adjustment of the right back channel
+	 */
+	rightBack?: IVolumeAdjustment;
+
+	/**
+	 * The adjustment of the left back channel
+	 */
+	leftBack?: IVolumeAdjustment;
+
+	/**
+	 * The adjustment of the centre channel
+	 */
+	centre?: IVolumeAdjustment;
+
+	/**
+	 * The adjustment of the bass channel
+	 */
+	bass?: IVolumeAdjustment;
+}
+
+/**
+ * An attached picture
+ */
+export interface IPictureFrame {
+	/**
+	 * The MIME type of the picture, e.g. image/jpeg
+	 */
+	mime: string;
+
+	/**
+	 * The type of the picture
+	 */
+	type: PictureType;
+
+	/**
+	 * The description of the picture
+	 */
+	description: string;
+
+	/**
+	 * The picture data
+	 */
+	data: Buffer;
+}
+
+/**
+ * A frame which is not supported, kept as it was read so that it can be written back unchanged
+ */
+export interface IUnknownFrame extends IFrameFlagData {
+	/**
+	 * The frame ID, e.g. GEOB
+	 */
+	id: string;
+
+	/**
+	 * The frame flags
+	 */
+	flags: IFrameFlags;
+
+	/**
+	 * The frame body
+	 */
+	body: Buffer;
+}
+
 /**
  * All of the possible ID3 frames
  */
-export interface IFrames extends TextFrames {
+export interface IFrames extends TextFrames, UrlFrames {
 	/**
-	 * A comment frame
+	 * The comments, each is identified by its language and descriptor
 	 */
-	comment?: ISpecialTextFrame;
+	comment?: ISpecialTextFrame[] | ISpecialTextFrame;
 
 	/**
-	 * An image frame
+	 * The attached pictures, a buffer is written as a front cover
 	 */
-	image?: Buffer | string;
+	image?: IPictureFrame[] | IPictureFrame | Buffer;
 
 	/**
-	 * The unsynchronised lyrics
+	 * The unsynchronised lyrics, each is identified by its language and descriptor
 	 */
-	unsynchronisedLyrics?: ISpecialTextFrame;
+	unsynchronisedLyrics?: ISpecialTextFrame[] | ISpecialTextFrame;
+
+	/**
+	 * The synchronised lyrics
+	 */
+	synchronisedLyrics?: ISynchronisedLyricsFrame[] | ISynchronisedLyricsFrame;
 
 	/**
 	 * User defined text
 	 */
 	userDefinedText?: IUserDefinedTextFrame[] | IUserDefinedTextFrame;
+
+	/**
+	 * User defined URL links
+	 */
+	userDefinedUrl?: IUserDefinedUrlFrame[] | IUserDefinedUrlFrame;
+
+	/**
+	 * The chapters of the audio
+	 */
+	chapter?: IChapterFrame[] | IChapterFrame;
+
+	/**
+	 * The tables of contents which list the chapters
+	 */
+	tableOfContents?: ITableOfContentsFrame[] | ITableOfContentsFrame;
+
+	/**
+	 * The ratings and play counts, there is one entry for each email address
+	 */
+	popularimeter?: IPopularimeterFrame[] | IPopularimeterFrame;
+
+	/**
+	 * The number of times the file has been played, a bigint if it is larger than Number.MAX_SAFE_INTEGER
+	 */
+	playCounter?: number | bigint;
+
+	/**
+	 * The identifiers of the file in databases, there is one entry for each owner
+	 */
+	uniqueFileIdentifier?: IUniqueFileIdentifierFrame[] | IUniqueFileIdentifierFrame;
+
+	/**
+	 * Data which applications store for their own use
+	 */
+	private?: IPrivateFrame[] | IPrivateFrame;
+
+	/**
+	 * The relative volume adjustments of ID3v2.4.0, there is one entry for each identification
+	 */
+	relativeVolumeAdjustment?: IRelativeVolumeAdjustmentFrame[] | IRelativeVolumeAdjustmentFrame;
+
+	/**
+	 * The relative volume adjustment of ID3v2.3.0
+	 */
+	volumeAdjustment?: IVolumeAdjustmentFrame;
+
+	/**
+	 * Frames which could not be decoded, these are written back as they are
+	 */
+	unknownFrames?: IUnknownFrame[];
 }
 
 /**
@@ -123,9 +521,50 @@ export default class FrameDefinitions {
 		size: "TSIZ",
 		ISRC: "TSRC",
 		encodingTechnology: "TSSE",
-		year: "TYER"
+		year: "TYER",
+		involvedPeopleList: "IPLS",
+		encodingTime: "TDEN",
+		originalReleaseTime: "TDOR",
+		recordingTime: "TDRC",
+		releaseTime: "TDRL",
+		taggingTime: "TDTG",
+		involvedPeople: "TIPL",
+		musicianCredits: "TMCL",
+		mood: "TMOO",
+		producedNotice: "TPRO",
+		albumSortOrder: "TSOA",
+		performerSortOrder: "TSOP",
+		titleSortOrder: "TSOT",
+		setSubtitle: "TSST"
 	};
 
+	/**
+	 * Frames which were introduced in ID3 v2.4.0 and do not exist in v2.3.0
+	 */
+	public static framesAddedInV240: Array<FrameName | SpecialFrameName> = [
+		"TDEN", "TDOR", "TDRC", "TDRL", "TDTG", "TIPL", "TMCL", "TMOO", "TPRO", "TSOA", "TSOP", "TSOT", "TSST", "RVA2"
+	];
+
+	/**
+	 * The text frames which are read as an array when they have more than one value
+	 */
+	public static multipleValueFrames: MultipleValueFrameAlias[] = [
+		"artist", "performerInfo", "conductor", "remixArtist", "composer", "textWriter", "originalArtist",
+		"originalTextwriter", "genre", "language", "involvedPeople", "musicianCredits", "involvedPeopleList"
+	];
+
+	/**
+	 * The text frames whose values are pairs, of a role or instrument and the people involved in it
+	 */
+	public static pairFrames: MultipleValueFrameAlias[] = [ "involvedPeople", "musicianCredits", "involvedPeopleList" ];
+
+	/**
+	 * Frames which exist in ID3 v2.3.0 but were removed in v2.4.0
+	 */
+	public static framesRemovedInV240: Array<FrameName | SpecialFrameName> = [
+		"TDAT", "TIME", "TORY", "TRDA", "TSIZ", "TYER", "IPLS", "RVAD"
+	];
+
 	/**
 	 * The text frames in ID3 v2.2.0
 	 */
@@ -164,7 +603,34 @@ export default class FrameDefinitions {
 		size: "TSI",
 		ISRC: "TRC",
 		encodingTechnology: "TSS",
-		year: "TYE"
+		year: "TYE",
+		involvedPeopleList: "IPL"
+	};
+
+	/**
+	 * URL link frames, which contain a single ISO-8859-1 URL
+	 */
+	public static urlFrames: {[key in UrlFrameAlias]: UrlFrameName} = {
+		commercialUrl: "WCOM",
+		copyrightUrl: "WCOP",
+		fileUrl: "WOAF",
+		artistUrl: "WOAR",
+		audioSourceUrl: "WOAS",
+		radioStationUrl: "WORS",
+		paymentUrl: "WPAY",
+		publisherUrl: "WPUB"
+	};
+
+	/**
+	 * The URL link frames in ID3 v2.2.0
+	 */
+	public static urlFramesV220: {[key in V2UrlFrameAlias]: V2UrlFrameName} = {
+		fileUrl: "WAF",
+		artistUrl: "WAR",
+		audioSourceUrl: "WAS",
+		commercialUrl: "WCM",
+		copyrightUrl: "WCP",
+		publisherUrl: "WPB"
 	};
 
 	/**
@@ -174,14 +640,30 @@ export default class FrameDefinitions {
 		comment: "COMM",
 		image: "APIC",
 		unsynchronisedLyrics: "USLT",
-		userDefinedText: "TXXX"
+		userDefinedText: "TXXX",
+		userDefinedUrl: "WXXX",
+		synchronisedLyrics: "SYLT",
+		chapter: "CHAP",
+		tableOfContents: "CTOC",
+		popularimeter: "POPM",
+		playCounter: "PCNT",
+		uniqueFileIdentifier: "UFID",
+		private: "PRIV",
+		relativeVolumeAdjustment: "RVA2",
+		volumeAdjustment: "RVAD"
 	};
 
 	/**
 	 * Special frames in ID3 v2.2.0
 	 */
 	public static specialFramesV220: {[key in V2SpecialFrameAlias]: V2SpecialFrameName} = {
-		image: "PIC"
+		image: "PIC",
+		userDefinedUrl: "WXX",
+		synchronisedLyrics: "SLT",
+		popularimeter: "POP",
+		playCounter: "CNT",
+		uniqueFileIdentifier: "UFI",
+		volumeAdjustment: "RVA"
 	};
 
 	/**
@@ -193,10 +675,12 @@ export default class FrameDefinitions {
 		return {
 			...flipObject({
 				...this.textFrames,
+				...this.urlFrames,
 				...this.specialFrames
 			}),
 			...flipObject({
 				...this.textFramesV220,
+				...this.urlFramesV220,
 				...this.specialFramesV220
 			})
 		}[frameName];
@@ -210,6 +694,7 @@ export default class FrameDefinitions {
 	public static convertAliasToName(frameAlias: AllFrameAliases) {
 		return {
 			...this.textFrames,
+			...this.urlFrames,
 			...this.specialFrames
 		}[frameAlias];
 	}
@@ -219,8 +704,30 @@ export default class FrameDefinitions {
 	 * @param frameName - The name of the frame
 	 * @returns Whether or not there can be more than frame of this type
 	 */
-	public static canHaveMultipleEntries(frameName: AllFrameNames): frameName is "TXXX" {
-		return frameName === "TXXX";
+	public static canHaveMultipleEntries(frameName: AllFrameNames) {
+		return [
+			"TXXX", "APIC", "PIC", "WXXX", "WXX", "WCOM", "WCM", "WOAR", "WAR", "SYLT", "SLT", "CHAP", "CTOC", "POPM", "POP",
+			"UFID", "UFI", "PRIV", "RVA2", "COMM", "USLT"
+		].includes(frameName);
+	}
+
+	/**
+	 * Get the identity of a comment or unsynchronised lyrics frame, there can only be one frame with each identity
+	 * @param frame - The frame
+	 * @returns The language and descriptor of the frame, the language defaults to eng as it does when written
+	 */
+	public static getSpecialTextFrameIdentity({ language, shortText }: ISpecialTextFrame){
+		return `${language === undefined ? "eng" : language.substring(0, 3)}\0${shortText || ""}`;
+	}
+
+	/**
+	 * Whether or not a text or special frame is defined in the passed version of the specification
+	 * @param frameName - The name of the frame
+	 * @param version - The ID3 version, 3 or 4
+	 * @returns Whether or not the frame can be written to a tag of this version
+	 */
+	public static isSupportedInVersion(frameName: FrameName | SpecialFrameName, version: number){
+		return version === 4 ? !this.framesRemovedInV240.includes(frameName) : !this.framesAddedInV240.includes(frameName);
 	}
 
 	/**
@@ -228,7 +735,17 @@ export default class FrameDefinitions {
 	 * @param frameName - The frame to check
 	 * @returns Whether or not the passed frame is a text frame
 	 */
-	public static isTextFrame(frameName: FrameName | SpecialFrameName){
-		return frameName[0] === "T" && frameName !== "TXXX";
+	public static isTextFrame(frameName: AllFrameNames){
+		//The involved people list of ID3 v2.3.0 and v2.2.0 is the only text frame whose name doesn't start with a T
+		return (frameName[0] === "T" && frameName !== "TXXX") || frameName === "IPLS" || frameName === "IPL";
+	}
+
+	/**
+	 * Check if the passed frame is a URL link frame
+	 * @param frameName - The frame to check
+	 * @returns Whether or not the passed frame is a URL link frame
+	 */
+	public static isUrlFrame(frameName: AllFrameNames){
+		return frameName[0] === "W" && frameName !== "WXXX" && frameName !== "WXX";
 	}
 }
@@ -3,12 +3,35 @@ import { Buffer } from 'buffer';
 import FrameDefinitions, {
 	IFrames,
 	AllFrameAliases,
+	AllFrameNames,
 	FrameName,
 	SpecialFrameName,
 	ISpecialTextFrame,
-	IUserDefinedTextFrame
+	IUserDefinedTextFrame,
+	UrlFrameName,
+	IPictureFrame,
+	IUserDefinedUrlFrame,
+	ISynchronisedLyricsFrame,
+	IChapterFrame,
+	ITableOfContentsFrame,
+	IPopularimeterFrame,
+	IUniqueFileIdentifierFrame,
+	IPrivateFrame,
+	IRelativeVolumeAdjustmentFrame,
+	IVolumeAdjustmentFrame,
+	IVolumeAdjustment,
+	IUnknownFrame,
+	MultipleValueFrameAlias
 } from "./frameDefinitions";
-// import { readFileSync } from "fs";
+import { PictureType } from "./pictureType";
+import { IEncodingOptions } from "./options";
+import FrameFlags, { IFrameFlags } from "./frameFlags";
+import FrameFlagData, { IFrameFlagData } from "./frameFlagData";
+import { encodeSyncsafeSize, encodeCounter } from "./utils";
+import VersionConverter from "./versionConverter";
+import Genre from "./genre";
+import TextEncoding from "./textEncoding";
+import UnwritableFrameError from "./unwritableFrameError";
 
 /**
  * Handles the encoding of frames
@@ -17,143 +40,574 @@ export default class FrameEncoder {
 	/**
 	 * Encode frames
 	 * @param frames - The frames to encode
+	 * @param options - The options to encode the frames with
 	 * @returns An array of buffers which contain the encoded frames
 	 */
-	public static encodeFrames(frames: IFrames){
+	public static encodeFrames(frames: IFrames, options: IEncodingOptions): Buffer[] {
 		const frameBuffers: Buffer[] = [];
+		const { unknownFrames, ...convertedFrames } = VersionConverter.convert(frames, options.version);
 
 		// tslint:disable-next-line: no-any
-		for(const [ frameAlias, frameValue ] of Object.entries(frames) as Array<[AllFrameAliases, any]>){
+		for(const [ frameAlias, frameValue ] of Object.entries(convertedFrames) as Array<[AllFrameAliases, any]>){
 			const frameName = FrameDefinitions.convertAliasToName(frameAlias);
 
 			if (FrameDefinitions.isTextFrame(frameName)) {
-				frameBuffers.push(this.createTextFrame(frameName as FrameName, frameValue));
-			} else {
-				const frame = this.createSpecialFrame(frameName as SpecialFrameName, frameValue);
-
-				if (frame !== undefined) {
-					frameBuffers.push(frame);
+				if (FrameDefinitions.isSupportedInVersion(frameName as FrameName, options.version)) {
+					frameBuffers.push(this.createTextFrame(frameName as FrameName, frameValue, options));
 				}
+			} else if (FrameDefinitions.isUrlFrame(frameName)) {
+				frameBuffers.push(...this.createUrlFrames(frameName as UrlFrameName, frameValue, options));
+			} else if (FrameDefinitions.isSupportedInVersion(frameName as SpecialFrameName, options.version)) {
+				frameBuffers.push(...this.createSpecialFrame(frameName as SpecialFrameName, frameValue, options));
 			}
 		}
 
+		if (unknownFrames !== undefined) {
+			frameBuffers.push(...this.createUnknownFrames(unknownFrames, options));
+		}
+
 		return frameBuffers;
 	}
 
+	/**
+	 * Create a frame by prepending a frame header to the frame's body
+	 * @param frameName - The name of the frame
+	 * @param body - The body of the frame
+	 * @param options - The options to encode the frame with, the frame size is a syncsafe integer in v2.4.0
+	 * @param flags - The frame flags
+	 * @param flagData - The data for the frame flags
+	 * @returns The frame
+	 */
+	private static createFrame(
+		frameName: string,
+		body: Buffer,
+		options: IEncodingOptions,
+		flags: IFrameFlags = {},
+		flagData: IFrameFlagData = {}
+	){
+		const alias = FrameDefinitions.convertNameToAlias(frameName as AllFrameNames);
+		const compression = flags.compression ||
+			(options.compressedFrames !== undefined && options.compressedFrames.includes(alias));
+
+		//A compressed ID3v2.4.0 frame must have a data length indicator
+		const frameFlags: IFrameFlags = {
+			...flags,
+			compression,
+			dataLengthIndicator: options.version === 4 && (flags.dataLengthIndicator || compression)
+		};
+
+		const data = FrameFlagData.createFrameData(body, frameFlags, flagData, options.version);
+
+		const header = Buffer.alloc(10, 0);
+		header.write(frameName, 0);
+		header.writeUInt16BE(FrameFlags.encode(frameFlags, options.version), 8);
+
+		if(options.version === 4) {
+			header.set(encodeSyncsafeSize(data.length), 4);
+		} else {
+			header.writeUInt32BE(data.length, 4);
+		}
+
+		return Buffer.concat([ header, data ]);
+	}
+
+	/**
+	 * Write back the frames which could not be decoded when they were read
+	 * @param frames - The unknown frames
+	 * @param options - The options to encode the frame with
+	 * @returns The frames, excluding those with a three character ID3 v2.2.0 name which can't be written, which are
+	 * added to the warnings, those which ask to be discarded when the tag is altered and SEEK frames, whose offset is
+	 * wrong once the tag changes
+	 */
+	private static createUnknownFrames(frames: IUnknownFrame[], options: IEncodingOptions){
+		const writableFrames = frames.filter(({ id }) => {
+			if(id.length !== 4 && options.warnings !== undefined) {
+				options.warnings.push(new UnwritableFrameError(`The ID3v2.2.0 ${id} frame can't be written to a newer tag`, id));
+			}
+
+			return id.length === 4;
+		});
+
+		return writableFrames
+			.filter(({ id, flags }) => !flags.tagAlterPreservation && id !== "SEEK")
+			.map(({ id, flags, body, ...flagData }) => this.createFrame(id, body, options, flags, flagData));
+	}
+
 	/**
 	 * Create a standard text frame
 	 * @param frameName - The name of the frame
-	 * @param frameValue - The value of the frame
+	 * @param frameValue - The value of the frame, more than one value is separated by a zero byte in ID3v2.4.0 and by
+	 * the separator option in ID3v2.3.0
+	 * @param options - The options to encode the frame with, which contain the encoding
 	 * @returns The newly created text frame buffer
 	 */
-	private static createTextFrame(frameName: FrameName, frameValue: string){
-		const encoded = iconv.encode(frameValue, "utf16");
+	private static createTextFrame(frameName: FrameName, frameValue: string[] | string, options: IEncodingOptions){
+		const values = (frameValue instanceof Array ? frameValue : [ frameValue ]).map(value => {
+			return frameName === "TCON" && options.numericGenres ? Genre.toReference(value, options.version) : value;
+		});
+
+		const isPairFrame = FrameDefinitions.pairFrames.includes(
+			FrameDefinitions.convertNameToAlias(frameName) as MultipleValueFrameAlias
+		);
+
+		//The pairs of the involved people are always separated by a zero byte
+		const separator = options.version === 4 || isPairFrame ?
+			"\0" :
+			options.separator === undefined ? "/" : options.separator;
 
-		const buffer = Buffer.alloc(10, 0);
-		buffer.write(frameName, 0);
-		buffer.writeUInt32BE((encoded).length + 1, 4);
+		//ID3v2.3.0 genre references are not separated, e.g. "(4)(17)"
+		const text = values.reduce((joined, value, index) => {
+			return index === 0 || /^\(\d+\)$/.test(values[index - 1]) ? joined + value : joined + separator + value;
+		}, "");
 
-		return Buffer.concat([ buffer, Buffer.alloc(1, 1), encoded ]);
+		const encoding = TextEncoding.choose([ text ], options);
+
+		//The pairs are terminated, so that an empty value at the end isn't mistaken for the terminator
+		return this.createFrame(frameName, Buffer.concat([
+			Buffer.from([ encoding ]),
+			isPairFrame ? TextEncoding.encodeTerminated(text, encoding) : TextEncoding.encode(text, encoding)
+		]), options);
 	}
 
 	/**
 	 * Create a special frame using the associated function
 	 * @param frameName - The name of the frame
 	 * @param frameValue - The value for the frame
-	 * @returns The special frame
+	 * @param options - The options to encode the frame with
+	 * @returns The special frames, frames which can have more than one entry create a buffer for each
 	 */
 	// tslint:disable-next-line: no-any
-	private static createSpecialFrame(frameName: SpecialFrameName, frameValue: any){
+	private static createSpecialFrame(frameName: SpecialFrameName, frameValue: any, options: IEncodingOptions): Buffer[] {
 		switch (frameName) {
 			case "COMM":
-				return this.createSpecialTextFrame(frameName, frameValue);
+				return this.createSpecialTextFrames(frameName, frameValue, options);
 
 			case "APIC":
-				return this.createImageFrame(frameValue);
+				return this.createImageFrame(frameValue, options);
 
 			case "USLT":
-				return this.createSpecialTextFrame(frameName, frameValue);
+				return this.createSpecialTextFrames(frameName, frameValue, options);
 
 			case "TXXX":
-				return this.createUserDefinedTextFrame(frameValue);
+				return this.createUserDefinedTextFrame(frameValue, options);
+
+			case "WXXX":
+				return this.createUserDefinedUrlFrame(frameValue, options);
+
+			case "SYLT":
+				return this.createSynchronisedLyricsFrame(frameValue, options);
+
+			case "CHAP":
+				return this.createChapterFrame(frameValue, options);
+
+			case "CTOC":
+				return this.createTableOfContentsFrame(frameValue, options);
+
+			case "POPM":
+				return this.createPopularimeterFrame(frameValue, options);
+
+			case "PCNT":
+				return [ this.createFrame(frameName, Buffer.from(encodeCounter(frameValue)), options) ];
+
+			case "UFID":
+				return this.createUniqueFileIdentifierFrame(frameValue, options);
+
+			case "PRIV":
+				return this.createPrivateFrame(frameValue, options);
+
+			case "RVA2":
+				return this.createRelativeVolumeAdjustmentFrame(frameValue, options);
+
+			case "RVAD":
+				return [ this.createVolumeAdjustmentFrame(frameValue, options) ];
 
 			default:
-				return undefined;
+				return [];
 		}
 	}
 
 	/**
 	 * Create a special text frame (comment or unsync lyrics)
 	 * @param data - The data for this frame
+	 * @param options - The options to encode the frame with, which contain the encoding
 	 * @returns The buffer containing the frame
 	 */
-	private static createSpecialTextFrame(frameName: "COMM" | "USLT" | "TXXX", data: ISpecialTextFrame){
-		const buffers: Buffer[] = [];
+	private static createSpecialTextFrame(
+		frameName: "COMM" | "USLT" | "TXXX",
+		data: ISpecialTextFrame,
+		options: IEncodingOptions
+	){
+		const shortText = data.shortText || "";
+		const text = data.text || "";
+		const encoding = TextEncoding.choose([ shortText, text ], options);
 
-		const encodingBuffer = Buffer.alloc(1);
-		encodingBuffer[0] = 0x01;
-
-		buffers.push(encodingBuffer);
+		const buffers: Buffer[] = [ Buffer.from([ encoding ]) ];
 
 		if(frameName !== "TXXX"){
 			buffers.push(Buffer.from(data.language === undefined ? "eng" : data.language.substring(0, 3)));
 		}
 
-		const contentDescriptorBuffer = !data.shortText ?
-			iconv.encode("\0", "utf16") :
-			Buffer.concat([ iconv.encode(data.shortText, "utf16"), Buffer.alloc(2).fill(0x00) ]);
+		buffers.push(TextEncoding.encodeTerminated(shortText, encoding));
 
-		buffers.push(contentDescriptorBuffer);
+		buffers.push(TextEncoding.encode(text, encoding));
 
-		buffers.push(iconv.encode(data.text || "", "utf16"));
+		return this.createFrame(frameName, Buffer.concat(buffers), options);
+	}
 
-		const headerBuffer = Buffer.alloc(10, 0);
-		headerBuffer.write(frameName, 0);
-		headerBuffer.writeUInt32BE(buffers.reduce((acc, cur) => acc + cur.length, 0), 4);
+	/**
+	 * Create comment or unsynchronised lyrics frames
+	 * @param frameName - The name of the frames
+	 * @param data - The comments or lyrics, only the last one for each language and descriptor is written
+	 * @param options - The options to encode the frames with
+	 * @returns A buffer for each frame
+	 */
+	private static createSpecialTextFrames(
+		frameName: "COMM" | "USLT",
+		data: ISpecialTextFrame[] | ISpecialTextFrame,
+		options: IEncodingOptions
+	){
+		const entries = new Map<string, ISpecialTextFrame>();
 
-		return Buffer.concat([ headerBuffer, ...buffers ]);
+		for(const entry of data instanceof Array ? data : [ data ]) {
+			const identity = FrameDefinitions.getSpecialTextFrameIdentity(entry);
+
+			entries.delete(identity);
+			entries.set(identity, entry);
+		}
+
+		return Array.from(entries.values()).map(entry => this.createSpecialTextFrame(frameName, entry, options));
 	}
 
 	/**
 	 * Create a user defined text frame
 	 * @param data - The data for this user defined text frame
-	 * @returns The buffer containing this frame
+	 * @param options - The options to encode the frame with
+	 * @returns A buffer for each frame
 	 */
-	private static createUserDefinedTextFrame(data: IUserDefinedTextFrame | IUserDefinedTextFrame[]){
+	private static createUserDefinedTextFrame(data: IUserDefinedTextFrame | IUserDefinedTextFrame[], options: IEncodingOptions){
 		const entries = data instanceof Array ? data : [ data ];
-		let buffer: Buffer | undefined;
 
-		for (const { description, value } of entries) {
-			const singleBuffer = this.createSpecialTextFrame("TXXX", {
-				language: undefined,
-				shortText: description,
-				text: value
-			});
+		return entries.map(({ description, value }) => this.createSpecialTextFrame("TXXX", {
+			language: undefined,
+			shortText: description,
+			text: value
+		}, options));
+	}
+
+	/**
+	 * Create URL link frames
+	 * @param frameName - The name of the frames
+	 * @param urls - The URLs, one frame is created for each
+	 * @param options - The options to encode the frames with
+	 * @returns A buffer for each frame
+	 */
+	private static createUrlFrames(frameName: UrlFrameName, urls: string[] | string, options: IEncodingOptions){
+		return (urls instanceof Array ? urls : [ urls ]).map(url => {
+			return this.createFrame(frameName, iconv.encode(url, "ISO-8859-1"), options);
+		});
+	}
+
+	/**
+	 * Create user defined URL link frames
+	 * @param data - The user defined URL links
+	 * @param options - The options to encode the frames with
+	 * @returns A buffer for each frame
+	 */
+	private static createUserDefinedUrlFrame(data: IUserDefinedUrlFrame[] | IUserDefinedUrlFrame, options: IEncodingOptions){
+		return (data instanceof Array ? data : [ data ]).map(({ description, url }) => {
+			const encodedDescription = this.encodeDescription(description, options);
+
+			return this.createFrame("WXXX", Buffer.concat([ encodedDescription, iconv.encode(url, "ISO-8859-1") ]), options);
+		});
+	}
+
+	/**
+	 * Create synchronised lyrics frames
+	 * @param data - The synchronised lyrics
+	 * @param options - The options to encode the frames with
+	 * @returns A buffer for each frame
+	 */
+	private static createSynchronisedLyricsFrame(
+		data: ISynchronisedLyricsFrame[] | ISynchronisedLyricsFrame,
+		options: IEncodingOptions
+	){
+		return (data instanceof Array ? data : [ data ]).map(frame => {
+			const encoding = TextEncoding.choose([ frame.description, ...frame.lyrics.map(({ text }) => text) ], options);
+
+			//Every UTF-16 string has its own BOM
+			const encodeString = (text: string) => TextEncoding.encodeTerminated(text, encoding);
+
+			const header = Buffer.alloc(6, 0);
+			header[0] = encoding;
+			header.write(frame.language.substring(0, 3), 1, "latin1");
+			header[4] = frame.timestampFormat;
+			header[5] = frame.contentType;
+
+			return this.createFrame("SYLT", Buffer.concat([
+				header,
+				encodeString(frame.description),
+				...frame.lyrics.map(({ text, timestamp }) => {
+					const timestampBuffer = Buffer.alloc(4);
+					timestampBuffer.writeUInt32BE(timestamp, 0);
+
+					return Buffer.concat([ encodeString(text), timestampBuffer ]);
+				})
+			]), options);
+		});
+	}
+
+	/**
+	 * Create chapter frames
+	 * @param data - The chapters
+	 * @param options - The options to encode the frames and their embedded frames with
+	 * @returns A buffer for each frame
+	 */
+	private static createChapterFrame(data: IChapterFrame[] | IChapterFrame, options: IEncodingOptions){
+		return (data instanceof Array ? data : [ data ]).map(chapter => {
+			//Byte offsets which are not set are written as 0xFFFFFFFF
+			const times = Buffer.alloc(16);
+			times.writeUInt32BE(chapter.startTime, 0);
+			times.writeUInt32BE(chapter.endTime, 4);
+			times.writeUInt32BE(chapter.startOffset === undefined ? 0xFFFFFFFF : chapter.startOffset, 8);
+			times.writeUInt32BE(chapter.endOffset === undefined ? 0xFFFFFFFF : chapter.endOffset, 12);
+
+			return this.createFrame("CHAP", Buffer.concat([
+				this.encodeElementId(chapter.elementId),
+				times,
+				...this.encodeEmbeddedFrames(chapter.frames, options)
+			]), options);
+		});
+	}
+
+	/**
+	 * Create table of contents frames
+	 * @param data - The tables of contents
+	 * @param options - The options to encode the frames and their embedded frames with
+	 * @returns A buffer for each frame
+	 */
+	private static createTableOfContentsFrame(data: ITableOfContentsFrame[] | ITableOfContentsFrame, options: IEncodingOptions){
+		return (data instanceof Array ? data : [ data ]).map(tableOfContents => {
+			// tslint:disable-next-line: no-bitwise
+			const flags = (tableOfContents.isTopLevel ? 0x02 : 0x00) | (tableOfContents.isOrdered ? 0x01 : 0x00);
+
+			return this.createFrame("CTOC", Buffer.concat([
+				this.encodeElementId(tableOfContents.elementId),
+				Buffer.from([ flags, tableOfContents.childElementIds.length ]),
+				...tableOfContents.childElementIds.map(childElementId => this.encodeElementId(childElementId)),
+				...this.encodeEmbeddedFrames(tableOfContents.frames, options)
+			]), options);
+		});
+	}
+
+	/**
+	 * Create popularimeter frames
+	 * @param data - The popularimeters, only the last one for each email address is written
+	 * @param options - The options to encode the frames with
+	 * @returns A buffer for each frame
+	 */
+	private static createPopularimeterFrame(data: IPopularimeterFrame[] | IPopularimeterFrame, options: IEncodingOptions){
+		const popularimeters = new Map<string, IPopularimeterFrame>();
+
+		for(const popularimeter of data instanceof Array ? data : [ data ]) {
+			popularimeters.delete(popularimeter.email);
+			popularimeters.set(popularimeter.email, popularimeter);
+		}
+
+		return Array.from(popularimeters.values()).map(({ email, rating, counter }) => this.createFrame("POPM", Buffer.concat([
+			iconv.encode(email, "ISO-8859-1"),
+			Buffer.from([ 0x00, rating ]),
+			Buffer.from(counter === undefined ? [] : encodeCounter(counter))
+		]), options));
+	}
+
+	/**
+	 * Create unique file identifier frames
+	 * @param data - The unique file identifiers, only the last one for each owner is written
+	 * @param options - The options to encode the frames with
+	 * @returns A buffer for each frame
+	 */
+	private static createUniqueFileIdentifierFrame(
+		data: IUniqueFileIdentifierFrame[] | IUniqueFileIdentifierFrame,
+		options: IEncodingOptions
+	){
+		const identifiers = new Map<string, IUniqueFileIdentifierFrame>();
+
+		for(const identifier of data instanceof Array ? data : [ data ]) {
+			identifiers.delete(identifier.owner);
+			identifiers.set(identifier.owner, identifier);
+		}
+
+		return Array.from(identifiers.values()).map(({ owner, identifier }) => this.createFrame("UFID", Buffer.concat([
+			iconv.encode(owner, "ISO-8859-1"),
+			Buffer.alloc(1, 0),
+			identifier
+		]), options));
+	}
+
+	/**
+	 * Create private frames
+	 * @param data - The private data
+	 * @param options - The options to encode the frames with
+	 * @returns A buffer for each frame
+	 */
+	private static createPrivateFrame(data: IPrivateFrame[] | IPrivateFrame, options: IEncodingOptions){
+		return (data instanceof Array ? data : [ data ]).map(frame => this.createFrame("PRIV", Buffer.concat([
+			iconv.encode(frame.owner, "ISO-8859-1"),
+			Buffer.alloc(1, 0),
+			frame.data
+		]), options));
+	}
+
+	/**
+	 * Create ID3v2.4.0 relative volume adjustment frames
+	 * @param data - The relative volume adjustments, only the last one for each identification is written
+	 * @param options - The options to encode the frames with
+	 * @returns A buffer for each frame
+	 */
+	private static createRelativeVolumeAdjustmentFrame(
+		data: IRelativeVolumeAdjustmentFrame[] | IRelativeVolumeAdjustmentFrame,
+		options: IEncodingOptions
+	){
+		const adjustments = new Map<string, IRelativeVolumeAdjustmentFrame>();
 
-			buffer = buffer === undefined ? singleBuffer : Buffer.concat([ buffer, singleBuffer ]);
+		for(const adjustment of data instanceof Array ? data : [ data ]) {
+			adjustments.delete(adjustment.identification);
+			adjustments.set(adjustment.identification, adjustment);
 		}
 
-		return buffer;
+		return Array.from(adjustments.values()).map(({ identification, channels }) => this.createFrame("RVA2", Buffer.concat([
+			iconv.encode(identification, "ISO-8859-1"),
+			Buffer.alloc(1, 0),
+			...channels.map(({ channelType, volumeAdjustment, peak }) => {
+				//The adjustment is a signed number of 1/512 dB, the peak is written with 16 bits where 1 is full scale
+				const channel = Buffer.alloc(peak === undefined ? 4 : 6);
+				channel[0] = channelType;
+				channel.writeInt16BE(Math.min(Math.max(Math.round(volumeAdjustment * 512), -0x8000), 0x7FFF), 1);
+
+				if(peak !== undefined) {
+					channel[3] = 16;
+					channel.writeUInt16BE(Math.min(Math.max(Math.round(peak * 0x8000), 0), 0xFFFF), 4);
+				}
+
+				return channel;
+			})
+		]), options));
+	}
+
+	/**
+	 * Create an ID3v2.3.0 relative volume adjustment frame
+	 * @param data - The relative volume adjustment
+	 * @param options - The options to encode the frame with
+	 * @returns The frame
+	 */
+	private static createVolumeAdjustmentFrame(data: IVolumeAdjustmentFrame, options: IEncodingOptions){
+		const size = Math.ceil(data.bits / 8);
+		const encodeValue = (value: number) => {
+			const bytes = Buffer.alloc(size);
+			let remaining = Math.abs(value);
+
+			for(let i = size - 1; i >= 0; i--) {
+				bytes[i] = remaining % 256;
+				remaining = Math.floor(remaining / 256);
+			}
+
+			return bytes;
+		};
+
+		//Each pair of channels is followed by their peaks, and a channel can only be written if all of those before are
+		const groups: Array<Array<IVolumeAdjustment | undefined>> = [
+			[ data.right, data.left ],
+			[ data.rightBack, data.leftBack ],
+			[ data.centre ],
+			[ data.bass ]
+		];
+
+		const groupCount = groups.reduce((count, group, index) => {
+			return group.some(channel => channel !== undefined) ? index + 1 : count;
+		}, 0);
+
+		const channels = groups.slice(0, groupCount).map(group => group.map(channel => channel || { adjustment: 0, peak: 0 }));
+
+		//The bits of the increment flags are in the same order as the channels
+		const increments = ([] as IVolumeAdjustment[]).concat(...channels).reduce((flags, { adjustment }, index) => {
+			// tslint:disable-next-line: no-bitwise
+			return adjustment > 0 ? flags | (1 << index) : flags;
+		}, 0);
+
+		return this.createFrame("RVAD", Buffer.concat([
+			Buffer.from([ increments, data.bits ]),
+			...channels.map(group => Buffer.concat([
+				...group.map(({ adjustment }) => encodeValue(adjustment)),
+				...group.map(({ peak }) => encodeValue(peak))
+			]))
+		]), options);
 	}
 
 	/**
-	 * Create an image frame
-	 * @param data - The data for this image frame, either a buffer or a path to a file
-	 * @returns - The buffer containing the frame
+	 * Encode the ID of a chapter or table of contents
+	 * @param elementId - The element ID
+	 * @returns The null terminated ISO-8859-1 element ID
 	 */
-	private static createImageFrame(apicData: Buffer){
-		// const apicData = data instanceof Buffer ? data : Buffer.from(readFileSync(data, "binary"), "binary");
-		const bHeader = Buffer.alloc(10, 0);
-		bHeader.write("APIC", 0);
+	private static encodeElementId(elementId: string){
+		return Buffer.concat([ iconv.encode(elementId, "ISO-8859-1"), Buffer.alloc(1, 0) ]);
+	}
+
+	/**
+	 * Encode the frames which are embedded in a chapter or table of contents
+	 * @param frames - The embedded frames
+	 * @param options - The options to encode the frames with
+	 * @returns The encoded frames
+	 */
+	private static encodeEmbeddedFrames(frames: IFrames | undefined, options: IEncodingOptions){
+		return frames === undefined ? [] : this.encodeFrames(frames, options);
+	}
 
-		const mimeType = apicData[0] === 0xFF && apicData[1] === 0xD8 && apicData[2] === 0xFF ? "image/jpeg" : "image/png";
+	/**
+	 * Create the image frames
+	 * @param data - The pictures for these frames, a buffer is written as a front cover
+	 * @param options - The options to encode the frame with
+	 * @returns - A buffer for each frame
+	 */
+	private static createImageFrame(data: IPictureFrame[] | IPictureFrame | Buffer, options: IEncodingOptions){
+		const pictures = Buffer.isBuffer(data) ? [ this.createPictureFromBuffer(data) ] : data instanceof Array ? data : [ data ];
 
-		const bContent = Buffer.alloc(mimeType.length + 4, 0);
-		bContent[mimeType.length + 2] = 0x03;
-		bContent.write(mimeType, 1);
+		return pictures.map(picture => {
+			const description = this.encodeDescription(picture.description, options);
 
-		bHeader.writeUInt32BE(apicData.length + bContent.length, 4);
+			return this.createFrame("APIC", Buffer.concat([
+				description.slice(0, 1),
+				iconv.encode(picture.mime, "ISO-8859-1"),
+				Buffer.from([ 0x00, picture.type ]),
+				description.slice(1),
+				picture.data
+			]), options);
+		});
+	}
 
-		return Buffer.concat([ bHeader, bContent, apicData ]);
+	/**
+	 * Encode the description of a user defined URL link or picture, along with the encoding byte which precedes it
+	 * @param description - The description
+	 * @param options - The options which contain the encoding
+	 * @returns The encoding byte and the terminated description, an empty description is always written as ISO-8859-1
+	 * to save the BOM
+	 */
+	private static encodeDescription(description: string, options: IEncodingOptions){
+		const encoding = description ? TextEncoding.choose([ description ], options) : 0x00;
+
+		return Buffer.concat([ Buffer.from([ encoding ]), TextEncoding.encodeTerminated(description || "", encoding) ]);
+	}
+
+	/**
+	 * Create a front cover from the raw image data, the MIME type is guessed to be either JPEG or PNG
+	 * @param apicData - The image data
+	 * @returns The picture
+	 */
+	private static createPictureFromBuffer(apicData: Buffer): IPictureFrame {
+		return {
+			mime: apicData[0] === 0xFF && apicData[1] === 0xD8 && apicData[2] === 0xFF ? "image/jpeg" : "image/png",
+			type: PictureType.FrontCover,
+			description: "",
+			data: apicData
+		};
 	}
 }
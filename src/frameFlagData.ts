@@ -0,0 +1,141 @@
+import { Buffer } from 'buffer';
+import { inflateSync, deflateSync } from "zlib";
+import { IFrameFlags } from "./frameFlags";
+import { WritableVersion } from "./options";
+import { encodeSyncsafeSize } from "./utils";
+
+/**
+ * The bytes which follow the header of a frame depending on its flags
+ */
+export interface IFrameFlagData {
+	/**
+	 * The group which the frame belongs to
+	 */
+	groupId?: number;
+
+	/**
+	 * The method which the frame is encrypted with, as registered in an ENCR frame
+	 */
+	encryptionMethod?: number;
+
+	/**
+	 * The size of the encrypted frame once it is decrypted and decompressed, which can't be recalculated
+	 */
+	dataLength?: number;
+}
+
+/**
+ * A frame body with the data which its flags added removed
+ */
+export interface IFrameBody {
+	/**
+	 * The frame body
+	 */
+	body: Buffer;
+
+	/**
+	 * The data which the flags added before the frame body
+	 */
+	flagData: IFrameFlagData;
+}
+
+// tslint:disable: no-bitwise
+
+/**
+ * Handles the data which the frame flags add before the frame body, and the compression of the body
+ */
+export default class FrameFlagData {
+	/**
+	 * Remove the data which the flags add before the frame body, and inflate the body if it is compressed
+	 * @param data - The frame data following the frame header, with any unsynchronisation removed
+	 * @param flags - The decoded frame flags
+	 * @param version - The ID3 version
+	 * @returns The frame body and the data of the flags
+	 */
+	public static readFrameBody(data: Buffer, flags: IFrameFlags, version: number): IFrameBody {
+		const flagData: IFrameFlagData = {};
+		let position = 0;
+
+		//ID3v2.3.0 frames start with the decompressed size, which is not needed by zlib
+		if(version === 3 && flags.compression) {
+			position += 4;
+		}
+
+		if(version === 3 && flags.encryption) {
+			flagData.encryptionMethod = data[position++];
+		}
+
+		if(flags.groupingIdentity) {
+			flagData.groupId = data[position++];
+		}
+
+		if(version === 4 && flags.encryption) {
+			flagData.encryptionMethod = data[position++];
+		}
+
+		if(version === 4 && flags.dataLengthIndicator) {
+			const size = data.slice(position, position + 4);
+
+			flagData.dataLength = (size[0] << 21) + (size[1] << 14) + (size[2] << 7) + size[3];
+			position += 4;
+		}
+
+		const body = data.slice(position);
+
+		if(flags.encryption) {
+			return { body, flagData };
+		}
+
+		return {
+			body: flags.compression ? inflateSync(body) : body,
+			flagData: {
+				groupId: flagData.groupId
+			}
+		};
+	}
+
+	/**
+	 * Create the data which the flags add before the frame body, and compress the body if it should be compressed
+	 * @param body - The frame body
+	 * @param flags - The frame flags, the body of an encrypted frame is never compressed as it already is
+	 * @param flagData - The data for the flags
+	 * @param version - The ID3 version
+	 * @returns The frame data following the frame header
+	 */
+	public static createFrameData(
+		body: Buffer,
+		flags: IFrameFlags,
+		flagData: IFrameFlagData,
+		version: WritableVersion
+	): Buffer {
+		const dataLength = flags.encryption && flagData.dataLength !== undefined ? flagData.dataLength : body.length;
+		const data = flags.compression && !flags.encryption ? deflateSync(body) : body;
+		const prefix: number[] = [];
+
+		if(version === 3) {
+			if(flags.compression) {
+				prefix.push(dataLength >>> 24, (dataLength >> 16) & 0xFF, (dataLength >> 8) & 0xFF, dataLength & 0xFF);
+			}
+
+			if(flags.encryption) {
+				prefix.push(flagData.encryptionMethod === undefined ? 0 : flagData.encryptionMethod);
+			}
+		}
+
+		if(flags.groupingIdentity) {
+			prefix.push(flagData.groupId === undefined ? 0 : flagData.groupId);
+		}
+
+		if(version === 4) {
+			if(flags.encryption) {
+				prefix.push(flagData.encryptionMethod === undefined ? 0 : flagData.encryptionMethod);
+			}
+
+			if(flags.dataLengthIndicator) {
+				prefix.push(...encodeSyncsafeSize(dataLength));
+			}
+		}
+
+		return Buffer.concat([ Buffer.from(prefix), data ]);
+	}
+}
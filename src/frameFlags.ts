@@ -0,0 +1,92 @@
+import { WritableVersion } from "./options";
+
+/**
+ * The decoded flags of a frame header
+ */
+export interface IFrameFlags {
+	/**
+	 * Whether the frame should be discarded if it is unknown and the tag is altered
+	 */
+	tagAlterPreservation?: boolean;
+
+	/**
+	 * Whether the frame should be discarded if it is unknown and the audio is altered
+	 */
+	fileAlterPreservation?: boolean;
+
+	/**
+	 * Whether the frame is meant to be read only
+	 */
+	readOnly?: boolean;
+
+	/**
+	 * Whether the frame is compressed with zlib, compressed frames are inflated when they are read
+	 */
+	compression?: boolean;
+
+	/**
+	 * Whether the frame is encrypted, encrypted frames are never decoded
+	 */
+	encryption?: boolean;
+
+	/**
+	 * Whether the frame belongs to a group of frames
+	 */
+	groupingIdentity?: boolean;
+
+	/**
+	 * Whether the frame has a data length indicator, only in ID3v2.4.0
+	 */
+	dataLengthIndicator?: boolean;
+}
+
+/**
+ * The bit of each flag in ID3v2.3.0 and ID3v2.4.0 frame headers
+ */
+const FLAG_BITS: {[key in keyof IFrameFlags]-?: [number, number]} = {
+	tagAlterPreservation: [ 0x8000, 0x4000 ],
+	fileAlterPreservation: [ 0x4000, 0x2000 ],
+	readOnly: [ 0x2000, 0x1000 ],
+	compression: [ 0x0080, 0x0008 ],
+	encryption: [ 0x0040, 0x0004 ],
+	groupingIdentity: [ 0x0020, 0x0040 ],
+	dataLengthIndicator: [ 0x0000, 0x0001 ]
+};
+
+// tslint:disable: no-bitwise
+
+/**
+ * Handles the flags in frame headers
+ */
+export default class FrameFlags {
+	/**
+	 * Decode the flags of a frame header
+	 * @param flags - The two flag bytes
+	 * @param version - The ID3 version, the position of the flags changed in ID3v2.4.0
+	 * @returns The decoded flags
+	 */
+	public static decode(flags: number, version: number): IFrameFlags {
+		const decoded: IFrameFlags = {};
+
+		if(version > 2) {
+			for(const [ flag, bits ] of Object.entries(FLAG_BITS) as Array<[keyof IFrameFlags, [number, number]]>) {
+				if(flags & bits[version === 4 ? 1 : 0]) {
+					decoded[flag] = true;
+				}
+			}
+		}
+
+		return decoded;
+	}
+
+	/**
+	 * Encode the flags of a frame header
+	 * @param flags - The flags to encode
+	 * @param version - The ID3 version
+	 * @returns The two flag bytes
+	 */
+	public static encode(flags: IFrameFlags, version: WritableVersion){
+		return (Object.entries(FLAG_BITS) as Array<[keyof IFrameFlags, [number, number]]>)
+			.reduce((encoded, [ flag, bits ]) => flags[flag] ? encoded | bits[version === 4 ? 1 : 0] : encoded, 0);
+	}
+}
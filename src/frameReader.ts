@@ -0,0 +1,143 @@
+import { Buffer } from 'buffer';
+import { AllFrameNames } from "./frameDefinitions";
+import FrameFlags, { IFrameFlags } from "./frameFlags";
+import FrameFlagData, { IFrameFlagData } from "./frameFlagData";
+import Unsynchronisation, { FRAME_UNSYNCHRONISATION_FLAG } from "./unsynchronisation";
+import { decodeSyncsafeSize } from "./utils";
+import { IDecodingOptions } from "./readOptions";
+import { report } from "./id3Error";
+import TruncatedFrameError from "./truncatedFrameError";
+import InvalidFrameError from "./invalidFrameError";
+
+/**
+ * A decoded ID3 frame
+ */
+export interface IDecodedFrame extends IFrameFlagData {
+	/**
+	 * The name of the frame
+	 */
+	frameName: AllFrameNames;
+
+	/**
+	 * The flags of the frame, ID3 v2.2.0 frames have none
+	 */
+	flags: IFrameFlags;
+
+	/**
+	 * The value of the frame
+	 */
+	body: Buffer;
+
+	/**
+	 * The position of the frame header in the data which was read
+	 */
+	offset: number;
+}
+
+/**
+ * Splits a sequence of frames, such as the body of a tag or the sub-frames of a chapter, into separate frames
+ */
+export default class FrameReader {
+	/**
+	 * Read the frames in a buffer until the end of the buffer or the start of the padding
+	 * @param data - The buffer which contains the frames
+	 * @param version - The ID3 version
+	 * @param isUnsynchronised - Whether the unsynchronisation scheme is applied to all frames of an ID3v2.4.0 tag
+	 * @param options - The options to read the frames with, which the problems in the frames are reported to
+	 * @param start - The position of the first frame in the buffer
+	 * @param offset - The position of the buffer in the data which was read, which the frame offsets are relative to
+	 * @returns The frames, with the data which their flags added removed
+	 */
+	public static readFrames(
+		data: Buffer,
+		version: number,
+		isUnsynchronised: boolean,
+		options: IDecodingOptions,
+		start = 0,
+		offset = 0
+	){
+		const identifierSize = version === 2 ? 3 : 4;
+		const frameHeaderSize = version === 2 ? 6 : 10;
+
+		const frames: IDecodedFrame[] = [];
+
+		let currentPosition = start;
+		while (currentPosition < data.length && data[currentPosition] !== 0x00) {
+			const frameOffset = offset + currentPosition;
+			const frameHeader = Buffer.alloc(frameHeaderSize);
+			data.copy(frameHeader, 0, currentPosition);
+
+			const frameName = frameHeader.toString("latin1", 0, identifierSize);
+
+			if (currentPosition + frameHeaderSize > data.length) {
+				report(new TruncatedFrameError(
+					`The header of the ${frameName} frame is cut off after ${data.length - currentPosition} bytes`,
+					frameOffset,
+					frameName
+				), options);
+
+				break;
+			}
+
+			//A frame ID which isn't made of capital letters and numbers means that the sizes before it were wrong
+			if(!/^[A-Z0-9]+$/.test(frameName)) {
+				report(new InvalidFrameError(`Invalid frame ID "${frameName}"`, frameOffset, frameName), options);
+
+				break;
+			}
+
+			const frameSize = version === 4 ?
+				decodeSyncsafeSize(frameHeader.slice(4, 8)) :
+				frameHeader.readUIntBE(version > 2 ? 4 : 3, version > 2 ? 4 : 3);
+
+			const available = data.length - currentPosition - frameHeaderSize;
+
+			if (frameSize > available) {
+				report(new TruncatedFrameError(
+					`The ${frameName} frame is ${frameSize} bytes but only ${available} are left in the tag`,
+					frameOffset,
+					frameName
+				), options);
+
+				break;
+			}
+
+			const frameData = Buffer.alloc(frameSize);
+
+			data.copy(frameData, 0, currentPosition + frameHeaderSize);
+
+			//  Size of sub frame + its header
+			currentPosition += frameSize + frameHeaderSize;
+
+			const rawFlags = version > 2 ? frameHeader.readUInt16BE(8) : 0;
+			const flags = FrameFlags.decode(rawFlags, version);
+			// tslint:disable-next-line: no-bitwise
+			const isFrameUnsynchronised = version === 4 && (isUnsynchronised || (rawFlags & FRAME_UNSYNCHRONISATION_FLAG) !== 0);
+
+			try {
+				const { body, flagData } = FrameFlagData.readFrameBody(
+					isFrameUnsynchronised ? Unsynchronisation.remove(frameData) : frameData,
+					flags,
+					version
+				);
+
+				frames.push({
+					frameName: frameName as AllFrameNames,
+					flags,
+					body,
+					offset: frameOffset,
+					...flagData
+				});
+			} catch(error) {
+				//E.g. a compressed frame which can't be inflated
+				report(new InvalidFrameError(
+					`The ${frameName} frame could not be read: ${(error as Error).message}`,
+					frameOffset,
+					frameName
+				), options);
+			}
+		}
+
+		return frames;
+	}
+}
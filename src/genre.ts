@@ -0,0 +1,147 @@
+import { WritableVersion } from "./options";
+
+/**
+ * The genres of ID3v1, 0 to 79, followed by the Winamp extensions, 80 to 191
+ */
+const GENRES = [
+	"Blues", "Classic Rock", "Country", "Dance", "Disco", "Funk", "Grunge", "Hip-Hop", "Jazz", "Metal", "New Age",
+	"Oldies", "Other", "Pop", "R&B", "Rap", "Reggae", "Rock", "Techno", "Industrial", "Alternative", "Ska",
+	"Death Metal", "Pranks", "Soundtrack", "Euro-Techno", "Ambient", "Trip-Hop", "Vocal", "Jazz+Funk", "Fusion",
+	"Trance", "Classical", "Instrumental", "Acid", "House", "Game", "Sound Clip", "Gospel", "Noise", "AlternRock",
+	"Bass", "Soul", "Punk", "Space", "Meditative", "Instrumental Pop", "Instrumental Rock", "Ethnic", "Gothic",
+	"Darkwave", "Techno-Industrial", "Electronic", "Pop-Folk", "Eurodance", "Dream", "Southern Rock", "Comedy", "Cult",
+	"Gangsta", "Top 40", "Christian Rap", "Pop/Funk", "Jungle", "Native American", "Cabaret", "New Wave", "Psychadelic",
+	"Rave", "Showtunes", "Trailer", "Lo-Fi", "Tribal", "Acid Punk", "Acid Jazz", "Polka", "Retro", "Musical",
+	"Rock & Roll", "Hard Rock", "Folk", "Folk-Rock", "National Folk", "Swing", "Fast Fusion", "Bebob", "Latin",
+	"Revival", "Celtic", "Bluegrass", "Avantgarde", "Gothic Rock", "Progressive Rock", "Psychedelic Rock",
+	"Symphonic Rock", "Slow Rock", "Big Band", "Chorus", "Easy Listening", "Acoustic", "Humour", "Speech", "Chanson",
+	"Opera", "Chamber Music", "Sonata", "Symphony", "Booty Bass", "Primus", "Porn Groove", "Satire", "Slow Jam", "Club",
+	"Tango", "Samba", "Folklore", "Ballad", "Power Ballad", "Rhythmic Soul", "Freestyle", "Duet", "Punk Rock",
+	"Drum Solo", "A capella", "Euro-House", "Dance Hall", "Goa", "Drum & Bass", "Club-House", "Hardcore", "Terror",
+	"Indie", "BritPop", "Negerpunk", "Polsk Punk", "Beat", "Christian Gangsta Rap", "Heavy Metal", "Black Metal",
+	"Crossover", "Contemporary Christian", "Christian Rock", "Merengue", "Salsa", "Thrash Metal", "Anime", "JPop",
+	"Synthpop", "Abstract", "Art Rock", "Baroque", "Bhangra", "Big Beat", "Breakbeat", "Chillout", "Downtempo", "Dub",
+	"EBM", "Eclectic", "Electro", "Electroclash", "Emo", "Experimental", "Garage", "Global", "IDM", "Illbient",
+	"Industro-Goth", "Jam Band", "Krautrock", "Leftfield", "Lounge", "Math Rock", "New Romantic", "Nu-Breakz",
+	"Post-Punk", "Post-Rock", "Psytrance", "Shoegaze", "Space Rock", "Trop Rock", "World Music", "Neoclassical",
+	"Audiobook", "Audio Theatre", "Neue Deutsche Welle", "Podcast", "Indie Rock", "G-Funk", "Dubstep", "Garage Rock",
+	"Psybient"
+];
+
+/**
+ * The genres which are referenced by a keyword rather than a number
+ */
+const KEYWORD_GENRES: {[keyword: string]: string | undefined} = {
+	RX: "Remix",
+	CR: "Cover"
+};
+
+/**
+ * A reference at the start of an ID3v2.3.0 genre, e.g. "(17)" or "(RX)"
+ */
+const REFERENCE_PATTERN = /^\((\d+|RX|CR)\)/;
+
+/**
+ * Resolves the references to the genre table which TCON frames and ID3v1 tags contain
+ */
+export default class Genre {
+	/**
+	 * Resolve the values of a TCON frame to the names of their genres
+	 * @param values - The values of the frame
+	 * @returns The names of the genres, without duplicates
+	 */
+	public static resolve(values: string[]){
+		const genres: string[] = [];
+
+		for(const value of values) {
+			for(const name of this.resolveValue(value)) {
+				if(!genres.includes(name)) {
+					genres.push(name);
+				}
+			}
+		}
+
+		return genres;
+	}
+
+	/**
+	 * Get the name of a genre in the genre table
+	 * @param index - The number of the genre
+	 * @returns The name of the genre, or undefined if the number is not in the table
+	 */
+	public static getName(index: number): string | undefined {
+		return GENRES[index];
+	}
+
+	/**
+	 * Get the number of a genre in the genre table
+	 * @param name - The name of the genre, which is matched case insensitively
+	 * @returns The number of the genre, or -1 if it is not in the table
+	 */
+	public static getIndex(name: string){
+		return GENRES.findIndex(genre => genre.toLowerCase() === name.trim().toLowerCase());
+	}
+
+	/**
+	 * Replace a genre with a numeric reference if it is in the genre table
+	 * @param genre - The name of the genre
+	 * @param version - The ID3 version, ID3v2.3.0 puts the reference in parentheses
+	 * @returns The reference, e.g. "(17)" or "17", or the genre as it is if it is not in the table
+	 */
+	public static toReference(genre: string, version: WritableVersion){
+		const index = this.getIndex(genre);
+
+		if(index === -1) {
+			return genre;
+		}
+
+		return version === 3 ? `(${index})` : index.toString();
+	}
+
+	/**
+	 * Resolve a single genre value, which is either a number, a keyword or ID3v2.3.0 references followed by a
+	 * refinement, e.g. "(4)Eurodisco"
+	 * @param value - The genre value
+	 * @returns The names of the genres, a refinement is kept unless it is the same as the genre before it
+	 */
+	private static resolveValue(value: string){
+		if(/^\d+$/.test(value)) {
+			return [ this.resolveReference(value) ];
+		}
+
+		const keywordGenre = KEYWORD_GENRES[value];
+
+		if(keywordGenre !== undefined) {
+			return [ keywordGenre ];
+		}
+
+		const genres: string[] = [];
+		let remaining = value;
+
+		for(let match = REFERENCE_PATTERN.exec(remaining); match; match = REFERENCE_PATTERN.exec(remaining)) {
+			genres.push(this.resolveReference(match[1]));
+			remaining = remaining.substring(match[0].length);
+		}
+
+		//A refinement which starts with a parenthesis has it escaped as "(("
+		const refinement = remaining.replace(/^\(\(/, "(").trim();
+
+		if(refinement !== "" && (genres.length === 0 || genres[genres.length - 1].toLowerCase() !== refinement.toLowerCase())) {
+			genres.push(refinement);
+		}
+
+		return genres;
+	}
+
+	/**
+	 * Resolve a reference to the genre table
+	 * @param reference - The number or keyword which is referenced
+	 * @returns The name of the genre, or the reference in parentheses if it is not in the table
+	 */
+	private static resolveReference(reference: string){
+		const keywordGenre = KEYWORD_GENRES[reference];
+		const name = keywordGenre !== undefined ? keywordGenre : this.getName(parseInt(reference, 10));
+
+		return name === undefined ? `(${reference})` : name;
+	}
+}
@@ -0,0 +1,47 @@
+import { IDecodingOptions } from "./readOptions";
+
+/**
+ * The base class of the errors which are thrown, or reported as warnings, when a tag can't be read
+ */
+export default class ID3Error extends Error {
+	/**
+	 * The position in the data which was read at which the problem was found
+	 */
+	public readonly offset?: number;
+
+	/**
+	 * The ID of the frame which the problem was found in, if it was found in a frame
+	 */
+	public readonly frameId?: string;
+
+	/**
+	 * Create an error
+	 * @param message - The description of the problem
+	 * @param offset - The position at which the problem was found
+	 * @param frameId - The ID of the frame which the problem was found in
+	 */
+	public constructor(message: string, offset?: number, frameId?: string){
+		super(message);
+
+		//Errors which extend Error have to restore their prototype when compiled to ES5 or earlier
+		Object.setPrototypeOf(this, new.target.prototype);
+
+		this.name = "ID3Error";
+		this.offset = offset;
+		this.frameId = frameId;
+	}
+}
+
+/**
+ * Report a problem which was found while reading a tag
+ * @param error - The problem
+ * @param options - The options which the tag is read with, in strict mode the error is thrown and in lenient mode it
+ * is added to the warnings
+ */
+export const report = (error: ID3Error, options: IDecodingOptions) => {
+	if(options.mode === "strict") {
+		throw error;
+	}
+
+	options.warnings.push(error);
+};
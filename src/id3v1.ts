@@ -0,0 +1,197 @@
+import { Buffer } from 'buffer';
+import iconv from "iconv-lite";
+import { IFrames, ISpecialTextFrame } from "./frameDefinitions";
+import Genre from "./genre";
+
+/*
+ * Used specification: http://id3.org/ID3v1
+ */
+
+/**
+ * The size of an ID3v1 tag, including the "TAG" identifier
+ */
+export const TAG_SIZE = 128;
+
+/**
+ * The genre byte which signifies that no genre is set
+ */
+const NO_GENRE = 0xFF;
+
+/**
+ * Handles the reading and writing of the fixed size ID3v1 and ID3v1.1 tags at the end of a file
+ */
+export default class ID3v1 {
+	/**
+	 * Get the position of the ID3v1 tag
+	 * @param buffer - The buffer which the tag is in
+	 * @returns The position of the tag, or -1 if there is no tag
+	 */
+	public static getTagPosition(buffer: Buffer){
+		if(buffer.length < TAG_SIZE) {
+			return -1;
+		}
+
+		return buffer.toString("latin1", buffer.length - TAG_SIZE, buffer.length - TAG_SIZE + 3) === "TAG" ?
+			buffer.length - TAG_SIZE :
+			-1;
+	}
+
+	/**
+	 * Read the ID3v1 tag at the end of a buffer
+	 * @param buffer - The buffer to read the tag from
+	 * @returns The information in the tag, mapped to the ID3v2 frames
+	 */
+	public static read(buffer: Buffer): IFrames {
+		const position = this.getTagPosition(buffer);
+
+		if(position === -1) {
+			return {};
+		}
+
+		const tag = buffer.slice(position, position + TAG_SIZE);
+		const frames: IFrames = {};
+
+		const fields: Array<["title" | "artist" | "album" | "year", number, number]> = [
+			[ "title", 3, 30 ],
+			[ "artist", 33, 30 ],
+			[ "album", 63, 30 ],
+			[ "year", 93, 4 ]
+		];
+
+		for(const [ alias, offset, length ] of fields) {
+			const value = this.readString(tag, offset, length);
+
+			if(value !== "") {
+				frames[alias] = value;
+			}
+		}
+
+		//In ID3v1.1 the last two bytes of the comment are a zero byte followed by the track number
+		const isV11 = tag[125] === 0x00 && tag[126] !== 0x00;
+		const comment = this.readString(tag, 97, isV11 ? 28 : 30);
+
+		if(comment !== "") {
+			//Like the comments of an ID3v2 tag, which are always read as an array
+			frames.comment = [ {
+				language: "eng",
+				shortText: "",
+				text: comment
+			} ];
+		}
+
+		if(isV11) {
+			frames.trackNumber = tag[126].toString();
+		}
+
+		if(tag[127] !== NO_GENRE) {
+			const [ genre ] = Genre.resolve([ tag[127].toString() ]);
+			frames.genre = genre;
+		}
+
+		return frames;
+	}
+
+	/**
+	 * Create an ID3v1.1 tag
+	 * @param frames - The frames to create the tag from, values that are too long are truncated
+	 * @returns The tag
+	 */
+	public static create(frames: IFrames): Buffer {
+		const tag = Buffer.alloc(TAG_SIZE, 0);
+		tag.write("TAG", 0);
+
+		const year = frames.year !== undefined ? frames.year : frames.recordingTime;
+		const trackNumber = frames.trackNumber === undefined ? NaN : parseInt(frames.trackNumber, 10);
+		const hasTrackNumber = !isNaN(trackNumber) && trackNumber > 0 && trackNumber <= 0xFF;
+		const comment = this.getComment(frames.comment);
+
+		this.writeString(tag, frames.title, 3, 30);
+		this.writeString(tag, frames.artist, 33, 30);
+		this.writeString(tag, frames.album, 63, 30);
+		this.writeString(tag, year, 93, 4);
+		this.writeString(tag, comment, 97, hasTrackNumber ? 28 : 30);
+
+		if(hasTrackNumber) {
+			tag[126] = trackNumber;
+		}
+
+		tag[127] = this.getGenreByte(frames.genre);
+
+		return tag;
+	}
+
+	/**
+	 * Remove the ID3v1 tag from the end of a buffer
+	 * @param buffer - The buffer to remove the tag from
+	 * @returns The buffer without the tag
+	 */
+	public static remove(buffer: Buffer): Buffer {
+		const position = this.getTagPosition(buffer);
+
+		return position === -1 ? buffer : buffer.slice(0, position);
+	}
+
+	/**
+	 * Read a fixed length field, which is padded with either zero bytes or spaces
+	 * @param tag - The tag to read the field from
+	 * @param offset - The offset of the field
+	 * @param length - The length of the field
+	 * @returns The value of the field
+	 */
+	private static readString(tag: Buffer, offset: number, length: number){
+		const field = tag.slice(offset, offset + length);
+		const end = field.indexOf(0x00);
+
+		return iconv.decode(end === -1 ? field : field.slice(0, end), "ISO-8859-1").trim();
+	}
+
+	/**
+	 * Write a fixed length field, truncating the value if it is too long
+	 * @param tag - The tag to write the field to
+	 * @param value - The value to write, more than one value is separated by slashes
+	 * @param offset - The offset of the field
+	 * @param length - The length of the field
+	 */
+	private static writeString(tag: Buffer, value: string[] | string | undefined, offset: number, length: number){
+		if(value !== undefined) {
+			iconv.encode(value instanceof Array ? value.join("/") : value, "ISO-8859-1").copy(tag, offset, 0, length);
+		}
+	}
+
+	/**
+	 * Get the comment to write, ID3v1 can only store one comment
+	 * @param comments - The comments
+	 * @returns The text of the first comment without a descriptor, as those with one are usually written by players,
+	 * or of the first comment if they all have one
+	 */
+	private static getComment(comments: ISpecialTextFrame[] | ISpecialTextFrame | undefined){
+		const entries = comments === undefined ? [] : comments instanceof Array ? comments : [ comments ];
+		const comment = entries.find(({ shortText }) => !shortText);
+
+		return comment !== undefined ? comment.text : entries.length > 0 ? entries[0].text : undefined;
+	}
+
+	/**
+	 * Get the genre byte for a genre, ID3v1 can only store a reference to a genre in the genre list
+	 * @param genres - The genres, each either the name of a genre in the list, a number or a reference in the format "(17)",
+	 * only the first of more than one genre is written
+	 * @returns The genre byte
+	 */
+	private static getGenreByte(genres: string[] | string | undefined){
+		const genre = genres instanceof Array ? genres[0] : genres;
+
+		if(genre === undefined) {
+			return NO_GENRE;
+		}
+
+		const match = /^\(?(\d+)\)?$/.exec(genre);
+
+		if(!match) {
+			const index = Genre.getIndex(genre) === -1 ? Genre.getIndex(genre.split("/")[0]) : Genre.getIndex(genre);
+
+			return index === -1 ? NO_GENRE : index;
+		}
+
+		return Math.min(parseInt(match[1], 10), NO_GENRE);
+	}
+}
@@ -1,28 +1,120 @@
 import { Buffer } from 'buffer';
 
 /*
- * Used specification: http://id3.org/id3v2.3.0
+ * Used specifications: http://id3.org/id3v2.3.0, http://id3.org/id3v2.4.0-structure and http://id3.org/id3v2.4.0-frames
  */
 
+import FrameDecoder from "./frameDecoder";
+import FrameDefinitions, { IFrames, ISynchronisedLyricsFrame, ISpecialTextFrame } from "./frameDefinitions";
+import FrameEncoder from "./frameEncoder";
+import FrameReader from "./frameReader";
+import ExtendedHeader, { IExtendedHeader } from "./extendedHeader";
+import ID3v1, { TAG_SIZE as ID3V1_TAG_SIZE } from "./id3v1";
+import FileAccess from "./fileAccess";
+import TagWriteStream from "./tagWriteStream";
+import TagReadStream from "./tagReadStream";
+import { IWriteOptions, ILrcOptions, IReplayGainOptions, WritableVersion } from "./options";
+import { IReadOptions, IDecodingOptions, IRemoveOptions } from "./readOptions";
+import Lrc from "./lrc";
+import Rating from "./rating";
+import ReplayGain, { IReplayGain } from "./replayGain";
+import NormalisedFrames, { INormalisedFrames } from "./normalisedFrames";
+import Unsynchronisation from "./unsynchronisation";
+import TagLocator, { ITagLocation, ReadRequest } from "./tagLocator";
+import { TAG_FOOTER_FLAG } from "./tagHeader";
+import MpegAudio, { IAudioInfo, AUDIO_SEARCH_SIZE } from "./mpegAudio";
+import { encodeSyncsafeSize, decodeSyncsafeSize } from "./utils";
+import BinaryDataConverter, { BinaryData, IBlob } from "./binaryData";
+import ID3Error, { report } from "./id3Error";
+import InvalidTagSizeError from "./invalidTagSizeError";
+import UnsupportedVersionError from "./unsupportedVersionError";
+import CrcMismatchError from "./crcMismatchError";
+import { readFileSync, writeFileSync, promises } from "fs";
+
+/**
+ * The tag header flag which signifies that the unsynchronisation scheme is applied
+ */
+const TAG_UNSYNCHRONISATION_FLAG = 0x80;
+
+/**
+ * The tag header flag which signifies that the header is followed by an extended header
+ */
+const TAG_EXTENDED_HEADER_FLAG = 0x40;
+
+/**
+ * An ID3v2 tag which was read from a file, buffer or blob
+ */
+interface ITagData {
+	/**
+	 * Where the tag was found
+	 */
+	location: ITagLocation;
+
+	/**
+	 * The tag including its header
+	 */
+	data: Buffer;
+}
+
+/**
+ * The tags which were read from a file, buffer or blob
+ */
+interface ITags {
+	/**
+	 * The ID3v2 tags, in the order of their positions
+	 */
+	tags: ITagData[];
+
+	/**
+	 * The last bytes of the data, where an ID3v1 tag may be
+	 */
+	end: Buffer;
+}
+
 /**
- * A decoded ID3 frame
+ * The header and body of an ID3v2 tag
  */
-export interface IDecodedFrame {
+interface ITagBody {
+	/**
+	 * The position of the tag header
+	 */
+	position: number;
+
 	/**
-	 * The name of the frame
+	 * The minor version of the tag, e.g. 3 for ID3v2.3.0
 	 */
-   frameName: AllFrameNames;
+	version: number;
 
 	/**
-	 * The value of the frame
+	 * Whether the unsynchronisation scheme is applied
+	 */
+	isUnsynchronised: boolean;
+
+	/**
+	 * The body which follows the tag header, with the unsynchronisation of tags before ID3v2.4.0 removed
 	 */
 	body: Buffer;
+
+	/**
+	 * The extended header, if the tag has one
+	 */
+	extendedHeader?: IExtendedHeader;
 }
 
-// import { readFileSync, writeFileSync } from "fs";
-import FrameDecoder from "./frameDecoder";
-import { IFrames, AllFrameNames } from "./frameDefinitions";
-import FrameEncoder from "./frameEncoder";
+/**
+ * The frames of a tag along with the problems which were found while reading it
+ */
+export interface IReadResult {
+	/**
+	 * The frames which could be read
+	 */
+	frames: IFrames;
+
+	/**
+	 * The problems which were found in lenient mode, in the order that they were found
+	 */
+	warnings: ID3Error[];
+}
 
 /**
  * The class which handles all ID3 interaction
@@ -32,231 +124,1020 @@ class NodeID3 {
 	 * Write ID3 frames to a file
 	 * @param frames - The metadata frames to write to the file
 	 * @param file - The path of the file to write the frames to
+	 * @param options - The options to write the tag with
 	 */
-	public write(file: string, frames: IFrames): undefined;
+	public write(file: string, frames: IFrames, options?: IWriteOptions): undefined;
 
 	/**
-	 * Write ID3 frames to a buffer
+	 * Write ID3 frames to a buffer, Uint8Array or ArrayBuffer
 	 * @param frames - The metadata frames to write to the buffer
 	 * @param buffer - The buffer to write the frames to
-	 * @returns The buffer with the frames written
+	 * @param options - The options to write the tag with
+	 * @returns The buffer with the frames written, of the same type as the one passed
 	 */
-	public write(buffer: Buffer, frames: IFrames): Buffer;
-	public write(currentData: Buffer | string, frames: IFrames) {
-		// const currentData = fileBuffer instanceof Buffer ? fileBuffer : readFileSync(fileBuffer);
-
-		const newData = Buffer.concat([
-			this.create(frames),
-			this.remove(currentData)
-		]);
+	public write<T extends BinaryData>(buffer: T, frames: IFrames, options?: IWriteOptions): T;
+	public write(currentData: BinaryData | string, frames: IFrames, options: IWriteOptions = {}): BinaryData | undefined {
+		if(options.fillLength) {
+			return this.write(currentData as BinaryData, this.fillLength(frames, this.getAudioInfo(currentData)), {
+				...options,
+				fillLength: false
+			});
+		}
 
-		/*if(typeof fileBuffer === "string"){
-			writeFileSync(fileBuffer, newData, "binary");
+		if(typeof currentData === "string") {
+			this.writeFile(currentData, frames, options);
 
 			return undefined;
-		}*/
+		}
+
+		const data = BinaryDataConverter.toBuffer(currentData);
+		const id3v1Tag = options.id3v1 ? [ ID3v1.create(frames) ] : [];
+
+		if(options.tagPosition === undefined) {
+			return BinaryDataConverter.matchType(Buffer.concat([
+				this.create(frames, options),
+				this.remove(data, { id3v1: options.id3v1 }),
+				...id3v1Tag
+			]), currentData);
+		}
 
-		return newData;
+		//The tag is replaced where it is, so that the other tags stay as they are
+		const { position, size, isAppended } = this.findLocation(TagLocator.locate(data), options.tagPosition);
+		const audio = options.id3v1 ? ID3v1.remove(data) : data;
+
+		return BinaryDataConverter.matchType(Buffer.concat([
+			audio.slice(0, position),
+			this.create(frames, isAppended ? { ...options, version: 4, footer: true } : options),
+			audio.slice(position + size),
+			...id3v1Tag
+		]), currentData);
 	}
 
 	/**
 	 * Create a frames buffer to append to the front of the file or buffer
 	 * @param frames - The frames to be in this buffer
+	 * @param options - The options to write the tag with
 	 * @returns The buffer
 	 */
-	public create(frames: IFrames) {
-		const frameBuffers: Buffer[] = [];
+	public create(frames: IFrames, options: IWriteOptions = {}): Buffer {
+		const version = options.version === undefined ? 3 : options.version;
+
+		if(version !== 3 && version !== 4) {
+			throw new UnsupportedVersionError(version);
+		}
+
+		const frameBuffers = FrameEncoder.encodeFrames(frames, { ...options, version });
+
+		//Only ID3v2.4.0 has footers, and a tag with a footer has no padding
+		const hasFooter = version === 4 && options.footer === true;
+
+		// tslint:disable-next-line: no-bitwise
+		const flags = (options.unsynchronisation ? TAG_UNSYNCHRONISATION_FLAG : 0x00) |
+			(options.extendedHeader ? TAG_EXTENDED_HEADER_FLAG : 0x00) |
+			(hasFooter ? TAG_FOOTER_FLAG : 0x00);
 
 		const header = Buffer.alloc(10, 0);
 		header.write("ID3", 0);              //File identifier
-		header.writeUInt16BE(0x0300, 3);     //Version 2.3.0  --  03 00
-		header.writeUInt16BE(0x0000, 5);     //Flags 00
+		header.writeUInt16BE(version === 4 ? 0x0400 : 0x0300, 3); //Version 2.3.0 or 2.4.0  --  03 00 or 04 00
+		header.writeUInt8(flags, 5);         //Flags
 
-		// Push a header for the ID3-Frame
-		frameBuffers.push(header, ...FrameEncoder.encodeFrames(frames));
+		//ID3v2.4.0 unsynchronises each frame individually, earlier versions unsynchronise the whole tag
+		const frameData = Buffer.concat(options.unsynchronisation && version === 4 ?
+			frameBuffers.map(frame => Unsynchronisation.applyToFrame(frame)) :
+			frameBuffers
+		);
 
-		//The size of the ID3 body less the header size
-		const totalSize = frameBuffers.reduce((acc, cur) => acc + cur.length, 0) - 10;
+		const paddingSize = options.padding === undefined || hasFooter ? 0 : options.padding;
 
-		// tslint:disable: no-bitwise
-		const size = [
-			(totalSize >> 21) & 0x7F,
-			(totalSize >> 14) & 0x7F,
-			(totalSize >> 7) & 0x7F,
-			totalSize & 0x7F
-		];
+		const tagBody = options.extendedHeader === undefined ?
+			frameData :
+			Buffer.concat([ ExtendedHeader.create(options.extendedHeader, version, frameData, paddingSize), frameData ]);
+
+		//The padding follows the unsynchronised frames, so that it doesn't change the size of the rest of the tag
+		const body = Buffer.concat([
+			options.unsynchronisation && version === 3 ? Unsynchronisation.apply(tagBody) : tagBody,
+			Buffer.alloc(paddingSize, 0)
+		]);
+
+		//  Write the size of the ID3 body less the header size to the header
+		header.set(encodeSyncsafeSize(body.length), 6);
+
+		if(!hasFooter) {
+			return Buffer.concat([ header, body ]);
+		}
 
-		//  Write bytes to ID3 frame header, which is the first frame
-		frameBuffers[0].writeUInt8(size[0], 6);
-		frameBuffers[0].writeUInt8(size[1], 7);
-		frameBuffers[0].writeUInt8(size[2], 8);
-		frameBuffers[0].writeUInt8(size[3], 9);
+		//The footer is a copy of the header with a reversed identifier
+		const footer = Buffer.from(header);
+		footer.write("3DI", 0);
 
-		return Buffer.concat(frameBuffers);
+		return Buffer.concat([ header, body, footer ]);
 	}
 
 	/**
 	 * Read ID3 information from a file
 	 * @param file - The path to the file for which to read the ID3 information
+	 * @param options - The options to read the tag with
 	 * @returns The ID3 information
 	 */
-	public read(file: string): IFrames;
+	public read(file: string, options?: IReadOptions): IFrames;
 
 	/**
-	 * Read ID3 information from a buffer
-	 * @param fileBuffer - The buffer to read the information from
+	 * Read ID3 information from a buffer, Uint8Array or ArrayBuffer
+	 * @param buffer - The buffer to read the information from
+	 * @param options - The options to read the tag with
 	 * @returns The ID3 information
 	 */
-	public read(buffer: Buffer): IFrames;
-	public read(bufferToRead: string | Buffer) {
-		// const bufferToRead = fileBuffer instanceof Buffer ? fileBuffer : readFileSync(fileBuffer);
+	public read(buffer: BinaryData, options?: IReadOptions): IFrames;
+	public read(fileBuffer: string | BinaryData, options: IReadOptions = {}) {
+		return this.readTags(this.readTagData(fileBuffer), options).frames;
+	}
 
-		const framePosition = this.getFramePosition(bufferToRead);
+	/**
+	 * Read ID3 information from a file, along with the problems which were found in the tag
+	 * @param file - The path to the file for which to read the ID3 information
+	 * @param options - The options to read the tag with
+	 * @returns The ID3 information and the warnings, which are empty in strict mode as the first problem is thrown
+	 */
+	public readWithWarnings(file: string, options?: IReadOptions): IReadResult;
 
-		if (framePosition === -1) {
-			return {};
+	/**
+	 * Read ID3 information from a buffer, Uint8Array or ArrayBuffer, along with the problems which were found in the tag
+	 * @param buffer - The buffer to read the information from
+	 * @param options - The options to read the tag with
+	 * @returns The ID3 information and the warnings, which are empty in strict mode as the first problem is thrown
+	 */
+	public readWithWarnings(buffer: BinaryData, options?: IReadOptions): IReadResult;
+	public readWithWarnings(fileBuffer: string | BinaryData, options: IReadOptions = {}) {
+		return this.readTags(this.readTagData(fileBuffer), options);
+	}
+
+	/**
+	 * Read the extended header of an ID3v2 tag in a buffer, Uint8Array or ArrayBuffer
+	 * @param buffer - The buffer which the tag is in
+	 * @param tagPosition - The position of the tag, as found by locate(), defaults to the first tag
+	 * @returns The extended header, or undefined if there is no tag or the tag has no extended header
+	 */
+	public readExtendedHeader(buffer: BinaryData, tagPosition?: number): IExtendedHeader | undefined {
+		const { tags } = this.readTagData(buffer);
+		const tagData = tagPosition === undefined ? tags[0] : tags.find(({ location }) => location.position === tagPosition);
+
+		if(tagData === undefined) {
+			return undefined;
 		}
 
-		const sizeBuffer = Buffer.from(bufferToRead.toString("hex", framePosition, framePosition + 10), "hex");
+		const tag = this.readTagBody(tagData, { mode: "lenient", warnings: [] });
 
-		const frameSize = this.decodeSize(Buffer.from([ sizeBuffer[6], sizeBuffer[7], sizeBuffer[8], sizeBuffer[9] ]));
-		const ID3Frame = Buffer.alloc(frameSize + 1);
-		const ID3FrameBody = Buffer.alloc(frameSize - 10 + 1);
-		bufferToRead.copy(ID3Frame, 0, framePosition);
+		return tag === undefined ? undefined : tag.extendedHeader;
+	}
 
-		console.log((ID3Frame.subarray(0, 10).toString("hex").match(/../g) as RegExpMatchArray).join(' '));
+	/**
+	 * Find the ID3v2 tags in a file: the tag at the start, the tags which follow it or which SEEK frames point to, and
+	 * the ID3v2.4.0 tags which are appended to the end with a footer
+	 * @param file - The path of the file
+	 * @returns The positions, sizes and versions of the tags, in the order of their positions
+	 */
+	public locate(file: string): ITagLocation[];
 
-		bufferToRead.copy(ID3FrameBody, 0, framePosition + 10);
+	/**
+	 * Find the ID3v2 tags in a buffer, Uint8Array or ArrayBuffer
+	 * @param buffer - The buffer to search
+	 * @returns The positions, sizes and versions of the tags, in the order of their positions
+	 */
+	public locate(buffer: BinaryData): ITagLocation[];
+	public locate(fileBuffer: string | BinaryData){
+		if(typeof fileBuffer !== "string") {
+			return TagLocator.locate(BinaryDataConverter.toBuffer(fileBuffer));
+		}
 
-		//ID3 version e.g. 3 if ID3v2.3.0
-		const ID3Version = ID3Frame[3];
+		return TagLocator.locateWith(this.getFileReader(fileBuffer), FileAccess.getSize(fileBuffer));
+	}
 
-		const identifierSize = ID3Version === 2 ? 3 : 4;
-		const textframeHeaderSize = ID3Version === 2 ? 6 : 10;
+	/**
+	 * Find the ID3v2 tags in a file asynchronously
+	 * @param file - The path of the file
+	 * @returns A promise which resolves to the positions, sizes and versions of the tags, in the order of their
+	 * positions
+	 */
+	public locateAsync(file: string): Promise<ITagLocation[]>;
 
-		const frames: IDecodedFrame[] = [];
+	/**
+	 * Find the ID3v2 tags in a buffer, Uint8Array or ArrayBuffer asynchronously
+	 * @param buffer - The buffer to search
+	 * @returns A promise which resolves to the positions, sizes and versions of the tags, in the order of their
+	 * positions
+	 */
+	public locateAsync(buffer: BinaryData): Promise<ITagLocation[]>;
+	public async locateAsync(fileBuffer: string | BinaryData){
+		if(typeof fileBuffer !== "string") {
+			return this.locate(fileBuffer);
+		}
 
-		let currentPosition = 0;
-		while (currentPosition < frameSize - 10 && ID3FrameBody[currentPosition] !== 0x00) {
-			const bodyFrameHeader = Buffer.alloc(textframeHeaderSize);
-			ID3FrameBody.copy(bodyFrameHeader, 0, currentPosition);
+		return TagLocator.locateWithAsync(this.getFileReaderAsync(fileBuffer), await FileAccess.getSizeAsync(fileBuffer));
+	}
 
-			const frameSizeBuffer = Buffer.from(ID3Version > 2 ?
-				[ bodyFrameHeader[4], bodyFrameHeader[5], bodyFrameHeader[6], bodyFrameHeader[7] ] :
-				[ bodyFrameHeader[3], bodyFrameHeader[4], bodyFrameHeader[5] ]
-			);
+	/**
+	 * Remove the ID3 tag from a file
+	 * @param file - The file to remove the ID3 tag from
+	 * @param options - Which tags to remove
+	 */
+	public remove(file: string, options?: IRemoveOptions): undefined;
 
-			const bodyFrameSize = ID3Version === 4 ?
-				this.decodeSize(frameSizeBuffer) :
-				frameSizeBuffer.readUIntBE(0, ID3Version > 2 ? 4 : 3);
+	/**
+	 * Remove all the ID3 tag from a buffer, Uint8Array or ArrayBuffer
+	 * @param buffer - The buffer to remove the tag from
+	 * @param options - Which tags to remove
+	 * @returns The buffer without the ID3 tag, of the same type as the one passed
+	 */
+	public remove<T extends BinaryData>(buffer: T, options?: IRemoveOptions): T;
+	public remove(data: string | BinaryData, options: IRemoveOptions = {}): BinaryData | undefined {
+		if(typeof data !== "string") {
+			return BinaryDataConverter.matchType(this.removeTags(BinaryDataConverter.toBuffer(data), options), data);
+		}
 
-			if (bodyFrameSize > (frameSize - currentPosition)) {
-				break;
-			}
+		writeFileSync(data, this.removeTags(readFileSync(data), options));
+
+		return undefined;
+	}
+
+	/**
+	 * Update a file with new ID3 frames
+	 * @param frames - The frames to update the file with
+	 * @param file - The path to the file to update
+	 * @param options - The options to write the tag with, the version defaults to that of the existing tag
+	 */
+	public update(frames: IFrames, file: string, options?: IWriteOptions): undefined;
 
-			const bodyFrameBuffer = Buffer.alloc(bodyFrameSize);
+	/**
+	 * Update a buffer, Uint8Array or ArrayBuffer with new ID3 frames
+	 * @param frames - The frames to update the buffer with
+	 * @param buffer - The buffer to update
+	 * @param options - The options to write the tag with, the version defaults to that of the existing tag
+	 * @returns The buffer with the new frames, of the same type as the one passed
+	 */
+	public update<T extends BinaryData>(frames: IFrames, buffer: T, options?: IWriteOptions): T;
+	public update(frames: IFrames, fileBuffer: string | BinaryData, options: IWriteOptions = {}){
+		const update = this.getUpdate(frames, this.readTagData(fileBuffer), options);
 
-			ID3FrameBody.copy(bodyFrameBuffer, 0, currentPosition + textframeHeaderSize);
+		//Typecast fileBuffer to one or the other of string or buffer, it will be handled correctly at runtime
+		const result = this.write(fileBuffer as BinaryData, update.frames, update.options);
 
-			//  Size of sub frame + its header
-			currentPosition += bodyFrameSize + textframeHeaderSize;
+		return typeof fileBuffer === "string" ? undefined : result;
+	}
 
-			frames.push({
-				frameName: bodyFrameHeader.toString("utf8", 0, identifierSize) as AllFrameNames,
-				body: bodyFrameBuffer
-			});
+	/**
+	 * Read ID3 information from a file asynchronously
+	 * @param file - The path to the file for which to read the ID3 information
+	 * @param options - The options to read the tag with
+	 * @returns A promise which resolves to the ID3 information
+	 */
+	public readAsync(file: string, options?: IReadOptions): Promise<IFrames>;
+
+	/**
+	 * Read ID3 information from a buffer, Uint8Array or ArrayBuffer asynchronously
+	 * @param buffer - The buffer to read the information from
+	 * @param options - The options to read the tag with
+	 * @returns A promise which resolves to the ID3 information
+	 */
+	public readAsync(buffer: BinaryData, options?: IReadOptions): Promise<IFrames>;
+	public async readAsync(fileBuffer: string | BinaryData, options: IReadOptions = {}){
+		if(typeof fileBuffer !== "string") {
+			return this.read(fileBuffer, options);
 		}
 
-		return FrameDecoder.decodeFrames(frames, ID3Version);
+		return this.readTags(await this.readFileTagDataAsync(fileBuffer), options).frames;
 	}
 
 	/**
-	 * Remove the ID3 tag from a file
-	 * @param file - The file to remove the ID3 tag from
+	 * Analyze the MPEG audio in a file, which follows the tags at the start
+	 * @param file - The path of the file
+	 * @returns The version, layer, bitrate, sample rate, channel mode and duration of the audio, or undefined if no MPEG
+	 * audio frame was found
 	 */
-	public remove(file: string): undefined;
+	public analyze(file: string): IAudioInfo | undefined;
 
 	/**
-	 * Remove all the ID3 tag from a buffer
-	 * @param buffer - The buffer to remove the tag from
-	 * @returns The buffer without the ID3 tag
+	 * Analyze the MPEG audio in a buffer, Uint8Array or ArrayBuffer
+	 * @param buffer - The buffer which contains the audio
+	 * @returns The version, layer, bitrate, sample rate, channel mode and duration of the audio, or undefined if no MPEG
+	 * audio frame was found
 	 */
-	public remove(buffer: Buffer): Buffer;
-	public remove(dataBuffer: Buffer){
-		// const dataBuffer = typeof data === "string" ? readFileSync(data) : data;
+	public analyze(buffer: BinaryData): IAudioInfo | undefined;
+	public analyze(fileBuffer: string | BinaryData){
+		return this.getAudioInfo(fileBuffer);
+	}
 
-		const ID3Offset = this.getFramePosition(dataBuffer);
+	/**
+	 * Analyze the MPEG audio in a file asynchronously
+	 * @param file - The path of the file
+	 * @returns A promise which resolves to the properties of the audio, or to undefined if no MPEG audio frame was found
+	 */
+	public analyzeAsync(file: string): Promise<IAudioInfo | undefined>;
 
-		if(ID3Offset === -1) {
-			return data;
+	/**
+	 * Analyze the MPEG audio in a buffer, Uint8Array or ArrayBuffer asynchronously
+	 * @param buffer - The buffer which contains the audio
+	 * @returns A promise which resolves to the properties of the audio, or to undefined if no MPEG audio frame was found
+	 */
+	public analyzeAsync(buffer: BinaryData): Promise<IAudioInfo | undefined>;
+	public async analyzeAsync(fileBuffer: string | BinaryData){
+		if(typeof fileBuffer !== "string") {
+			return this.getAudioInfo(fileBuffer);
 		}
 
-		const hSize = Buffer.from([
-			dataBuffer[ID3Offset + 6],
-			dataBuffer[ID3Offset + 7],
-			dataBuffer[ID3Offset + 8],
-			dataBuffer[ID3Offset + 9]
+		const read = this.getFileReaderAsync(fileBuffer);
+		const size = await FileAccess.getSizeAsync(fileBuffer);
+		const [ locations, fileEnd ] = await Promise.all([
+			TagLocator.locateWithAsync(read, size),
+			read(this.getID3v1Request(size))
 		]);
+		const { start, end } = MpegAudio.getAudioRange(locations, fileEnd, size);
 
-		if ((hSize[0] | hSize[1] | hSize[2] | hSize[3]) & 0x80) {
-			//  Invalid tag size
-			return false;
-		}
+		return MpegAudio.analyze(await read([ start, Math.min(end - start, AUDIO_SEARCH_SIZE) ]), start, end - start);
+	}
 
-		const newData = data.slice(ID3Offset + this.decodeSize(hSize) + 10);
+	/**
+	 * Read ID3 information from a Blob or File, such as one which was selected in a browser, only reading its tags
+	 * @param blob - The blob to read the information from
+	 * @param options - The options to read the tag with
+	 * @returns A promise which resolves to the ID3 information
+	 */
+	public async readBlob(blob: IBlob, options: IReadOptions = {}){
+		const tags = await this.collectTagDataAsync(async ([ position, length ]) => {
+			return BinaryDataConverter.toBuffer(await blob.slice(position, position + length).arrayBuffer());
+		}, blob.size);
 
-		/*if(typeof data === "string"){
-			writeFileSync(data, newData, "binary");
+		return this.readTags(tags, options).frames;
+	}
 
-			return undefined;
-		}*/
+	/**
+	 * Write ID3 frames to a file asynchronously
+	 * @param file - The path of the file to write the frames to
+	 * @param frames - The metadata frames to write to the file
+	 * @param options - The options to write the tag with
+	 * @returns A promise which resolves once the file is written
+	 */
+	public writeAsync(file: string, frames: IFrames, options?: IWriteOptions): Promise<undefined>;
 
-		return data.slice(ID3Offset + this.decodeSize(hSize) + 10);
+	/**
+	 * Write ID3 frames to a buffer, Uint8Array or ArrayBuffer asynchronously
+	 * @param buffer - The buffer to write the frames to
+	 * @param frames - The metadata frames to write to the buffer
+	 * @param options - The options to write the tag with
+	 * @returns A promise which resolves to the buffer with the frames written, of the same type as the one passed
+	 */
+	public writeAsync<T extends BinaryData>(buffer: T, frames: IFrames, options?: IWriteOptions): Promise<T>;
+	public async writeAsync(currentData: BinaryData | string, frames: IFrames, options: IWriteOptions = {}){
+		if(typeof currentData !== "string") {
+			return this.write(currentData, frames, options);
+		}
+
+		const framesToWrite = options.fillLength ? this.fillLength(frames, await this.analyzeAsync(currentData)) : frames;
+
+		await this.writeFileAsync(currentData, framesToWrite, { ...options, fillLength: false });
+
+		return undefined;
 	}
 
 	/**
-	 * Update a file with new ID3 frames
+	 * Update a file with new ID3 frames asynchronously
 	 * @param frames - The frames to update the file with
 	 * @param file - The path to the file to update
+	 * @param options - The options to write the tag with, the version defaults to that of the existing tag
+	 * @returns A promise which resolves once the file is written
 	 */
-	public update(frames: IFrames, file: string): undefined;
+	public updateAsync(frames: IFrames, file: string, options?: IWriteOptions): Promise<undefined>;
 
 	/**
-	 * Update a buffer with new ID3 frames
+	 * Update a buffer, Uint8Array or ArrayBuffer with new ID3 frames asynchronously
 	 * @param frames - The frames to update the buffer with
 	 * @param buffer - The buffer to update
-	 * @returns The buffer with the new frames
+	 * @param options - The options to write the tag with, the version defaults to that of the existing tag
+	 * @returns A promise which resolves to the buffer with the new frames, of the same type as the one passed
 	 */
-	public update(frames: IFrames, buffer: Buffer): Buffer;
-	public update(frames: IFrames, fileBuffer: string | Buffer){
+	public updateAsync<T extends BinaryData>(frames: IFrames, buffer: T, options?: IWriteOptions): Promise<T>;
+	public async updateAsync(
+		frames: IFrames,
+		fileBuffer: string | BinaryData,
+		options: IWriteOptions = {}
+	): Promise<BinaryData | undefined> {
+		const currentTags = typeof fileBuffer === "string" ?
+			await this.readFileTagDataAsync(fileBuffer) :
+			this.readTagData(fileBuffer);
+		const update = this.getUpdate(frames, currentTags, options);
+
 		//Typecast fileBuffer to one or the other of string or buffer, it will be handled correctly at runtime
-		const result = this.write(fileBuffer as Buffer, {
-			...this.read(fileBuffer as Buffer),
-			...frames
-		});
+		return this.writeAsync(fileBuffer as BinaryData, update.frames, update.options);
+	}
 
-		return typeof fileBuffer === "string" ? undefined : result;
+	/**
+	 * Remove the ID3 tag from a file asynchronously
+	 * @param file - The file to remove the ID3 tag from
+	 * @param options - Which tags to remove
+	 * @returns A promise which resolves once the file is written
+	 */
+	public removeAsync(file: string, options?: IRemoveOptions): Promise<undefined>;
+
+	/**
+	 * Remove the ID3 tag from a buffer, Uint8Array or ArrayBuffer asynchronously
+	 * @param buffer - The buffer to remove the tag from
+	 * @param options - Which tags to remove
+	 * @returns A promise which resolves to the buffer without the ID3 tag, of the same type as the one passed
+	 */
+	public removeAsync<T extends BinaryData>(buffer: T, options?: IRemoveOptions): Promise<T>;
+	public async removeAsync(data: string | BinaryData, options: IRemoveOptions = {}){
+		if(typeof data !== "string") {
+			return this.remove(data, options);
+		}
+
+		await promises.writeFile(data, this.removeTags(await promises.readFile(data), options));
+
+		return undefined;
+	}
+
+	/**
+	 * Create a transform stream which replaces the ID3v2 tag at the start of the audio passed through it
+	 * @param frames - The frames to be in the new tag
+	 * @param options - The options to write the tag with, an ID3v1 tag is never written
+	 * @returns The stream, which drops any existing ID3v2 tag and passes the audio through after the new tag
+	 */
+	public createWriteStream(frames: IFrames, options: IWriteOptions = {}){
+		return new TagWriteStream(this.create(frames, options));
+	}
+
+	/**
+	 * Create a transform stream which reads the ID3v2 tag at the start of the audio passed through it
+	 * @param options - The options to read the tag with
+	 * @returns The stream, which emits the ID3 information in a "tag" event and passes all of the data through
+	 */
+	public createReadStream(options: IReadOptions = {}){
+		return new TagReadStream(tag => this.read(tag, { ...options, id3v1: "ignore" }));
+	}
+
+	/**
+	 * Convert the contents of an LRC file to synchronised lyrics, which can be written as the synchronisedLyrics frame
+	 * @param lrc - The contents of the LRC file
+	 * @param options - The language and descriptor of the lyrics
+	 * @returns The synchronised lyrics with millisecond timestamps
+	 */
+	public lrcToSynchronisedLyrics(lrc: string, options: ILrcOptions = {}){
+		return Lrc.parse(lrc, options);
+	}
+
+	/**
+	 * Convert synchronised lyrics to the contents of an LRC file
+	 * @param lyrics - The synchronised lyrics, which must have millisecond timestamps
+	 * @returns The contents of the LRC file
+	 */
+	public synchronisedLyricsToLrc(lyrics: ISynchronisedLyricsFrame){
+		return Lrc.stringify(lyrics);
+	}
+
+	/**
+	 * Convert the rating of a popularimeter to the five star scale of media players
+	 * @param rating - The rating from 0 to 255
+	 * @returns The number of stars from 1 to 5, or 0 if the rating is unknown
+	 */
+	public ratingToStars(rating: number){
+		return Rating.toStars(rating);
+	}
+
+	/**
+	 * Convert a number of stars to the rating of a popularimeter
+	 * @param stars - The number of stars from 0 to 5
+	 * @returns The rating from 0 to 255
+	 */
+	public starsToRating(stars: number){
+		return Rating.fromStars(stars);
+	}
+
+	/**
+	 * Get the ReplayGain values from frames, which may be stored in user defined text, RVA2 or RVAD frames
+	 * @param frames - The frames to get the values from
+	 * @returns The track and album gain and peak which are present
+	 */
+	public getReplayGain(frames: IFrames){
+		return ReplayGain.read(frames);
+	}
+
+	/**
+	 * Set ReplayGain values in frames
+	 * @param frames - The frames to set the values in, which should include the existing frames of the tag
+	 * @param replayGain - The values to set
+	 * @param options - The forms to store the values in
+	 * @returns The frames with the ReplayGain entries of the chosen forms replaced
+	 */
+	public setReplayGain(frames: IFrames, replayGain: IReplayGain, options: IReplayGainOptions = {}){
+		return ReplayGain.write(frames, replayGain, options);
+	}
+
+	/**
+	 * Get the numeric and date frames as numbers, positions and ISO 8601 timestamps
+	 * @param frames - The frames to get the values from
+	 * @returns The values which are present, the ID3v2.3.0 date frames are merged into timestamps
+	 */
+	public getNormalisedFrames(frames: IFrames){
+		return NormalisedFrames.read(frames);
+	}
+
+	/**
+	 * Set the numeric and date frames from numbers, positions and ISO 8601 timestamps
+	 * @param frames - The frames to set the values in
+	 * @param normalised - The values to set
+	 * @returns The frames with the values formatted as strings, which can be written as either version
+	 */
+	public setNormalisedFrames(frames: IFrames, normalised: INormalisedFrames){
+		return NormalisedFrames.write(frames, normalised);
+	}
+
+	/**
+	 * Remove the ID3 tags from a buffer
+	 * @param data - The buffer to remove the tags from
+	 * @param options - Which tags to remove
+	 * @returns The buffer without the tags
+	 * @throws InvalidTagSizeError if the size of an ID3v2 tag is not a syncsafe integer
+	 */
+	private removeTags(data: Buffer, options: IRemoveOptions){
+		const dataBuffer = options.id3v1 ? ID3v1.remove(data) : data;
+
+		if(options.id3v2 === false) {
+			return dataBuffer;
+		}
+
+		const locations = options.tagPosition === undefined ?
+			TagLocator.locate(dataBuffer) :
+			[ this.findLocation(TagLocator.locate(dataBuffer), options.tagPosition) ];
+
+		const parts: Buffer[] = [];
+		let partStart = 0;
+
+		for(const { position, size } of locations) {
+			// tslint:disable-next-line: no-bitwise
+			if ((dataBuffer[position + 6] | dataBuffer[position + 7] | dataBuffer[position + 8] | dataBuffer[position + 9]) & 0x80) {
+				throw new InvalidTagSizeError("The tag size is not a syncsafe integer", position);
+			}
+
+			parts.push(dataBuffer.slice(partStart, position));
+			partStart = position + size;
+		}
+
+		return Buffer.concat([ ...parts, dataBuffer.slice(partStart) ]);
+	}
+
+	/**
+	 * Find the location of the tag at a position
+	 * @param locations - The locations of the tags
+	 * @param tagPosition - The position of the tag, as found by locate()
+	 * @returns The location of the tag
+	 * @throws Error if there is no tag at the position
+	 */
+	private findLocation(locations: ITagLocation[], tagPosition: number){
+		const location = locations.find(({ position }) => position === tagPosition);
+
+		if(location === undefined) {
+			throw new Error(`There is no ID3v2 tag at position ${tagPosition}`);
+		}
+
+		return location;
 	}
 
 	/**
-	 * Get the frames position
-	 * @param buffer - The buffer which the frame is in
-	 * @returns The position of the frame
+	 * Get the frames and options to write when updating a tag
+	 * @param frames - The frames to update the tag with
+	 * @param currentTags - The tags which were read from the data
+	 * @param options - The options to write the tag with, the version defaults to that of the existing tag
+	 * @returns The existing frames merged with the new ones, and the options to write them with
 	 */
-	private getFramePosition(buffer: Buffer){
-		const framePosition = buffer.indexOf("ID3");
+	private getUpdate(frames: IFrames, currentTags: ITags, options: IWriteOptions){
+		const currentTag = options.tagPosition === undefined ?
+			currentTags.tags[0] :
+			currentTags.tags.find(({ location }) => location.position === options.tagPosition);
+		const version: WritableVersion = currentTag !== undefined && currentTag.location.version === 4 ? 4 : 3;
+
+		const currentFrames = this.readTags(currentTags, { tagPosition: options.tagPosition }).frames;
+		const updatedFrames = { ...currentFrames, ...frames };
 
-		return framePosition === -1 || framePosition > 20 ? -1 : framePosition;
+		for(const alias of [ "comment", "unsynchronisedLyrics" ] as Array<"comment" | "unsynchronisedLyrics">) {
+			const currentEntries = currentFrames[alias];
+			const entries = frames[alias];
+
+			if(currentEntries !== undefined && entries !== undefined) {
+				updatedFrames[alias] = this.mergeSpecialTextFrames(currentEntries, entries);
+			}
+		}
+
+		return {
+			frames: updatedFrames,
+			options: { version, ...options }
+		};
 	}
 
 	/**
-	 * Decode a size byte of a frame
-	 * @param buffer - The size byte to decode
-	 * @returns The size of the frame
+	 * Merge the comments or unsynchronised lyrics of an existing tag with new ones
+	 * @param currentEntries - The existing entries
+	 * @param entries - The new entries
+	 * @returns The existing entries which no new entry has the language and descriptor of, followed by the new entries
 	 */
-	private decodeSize(buffer: Buffer){
-		return ((buffer[0] << 21) + (buffer[1] << 14) + (buffer[2] << 7) + (buffer[3]));
+	private mergeSpecialTextFrames(
+		currentEntries: ISpecialTextFrame[] | ISpecialTextFrame,
+		entries: ISpecialTextFrame[] | ISpecialTextFrame
+	){
+		const newEntries = entries instanceof Array ? entries : [ entries ];
+		const identities = newEntries.map(entry => FrameDefinitions.getSpecialTextFrameIdentity(entry));
+
+		return (currentEntries instanceof Array ? currentEntries : [ currentEntries ])
+			.filter(entry => !identities.includes(FrameDefinitions.getSpecialTextFrameIdentity(entry)))
+			.concat(newEntries);
+	}
+
+	/**
+	 * Write ID3 frames to a file, over the existing tag if the new one fits in it, otherwise by rewriting the file
+	 * @param file - The path of the file to write the frames to
+	 * @param frames - The metadata frames to write to the file
+	 * @param options - The options to write the tag with
+	 */
+	private writeFile(file: string, frames: IFrames, options: IWriteOptions){
+		const locations = TagLocator.locateWith(this.getFileReader(file), FileAccess.getSize(file));
+		const tag = this.createFileTag(frames, options, locations);
+
+		if(tag === undefined) {
+			writeFileSync(file, this.write(readFileSync(file), frames, options));
+
+			return;
+		}
+
+		FileAccess.write(file, tag.data, tag.position);
+
+		if(options.id3v1) {
+			const fileSize = FileAccess.getSize(file);
+			const fileEnd = FileAccess.read(file, Math.max(fileSize - ID3V1_TAG_SIZE, 0), ID3V1_TAG_SIZE);
+
+			FileAccess.write(file, ID3v1.create(frames), this.getID3v1FilePosition(fileEnd, fileSize));
+		}
+	}
+
+	/**
+	 * Write ID3 frames to a file asynchronously, over the existing tag if the new one fits in it, otherwise by
+	 * rewriting the file
+	 * @param file - The path of the file to write the frames to
+	 * @param frames - The metadata frames to write to the file
+	 * @param options - The options to write the tag with
+	 */
+	private async writeFileAsync(file: string, frames: IFrames, options: IWriteOptions){
+		const locations = await TagLocator.locateWithAsync(
+			this.getFileReaderAsync(file),
+			await FileAccess.getSizeAsync(file)
+		);
+		const tag = this.createFileTag(frames, options, locations);
+
+		if(tag === undefined) {
+			await promises.writeFile(file, this.write(await promises.readFile(file), frames, options));
+
+			return;
+		}
+
+		await FileAccess.writeAsync(file, tag.data, tag.position);
+
+		if(options.id3v1) {
+			const fileSize = await FileAccess.getSizeAsync(file);
+			const fileEnd = await FileAccess.readAsync(file, Math.max(fileSize - ID3V1_TAG_SIZE, 0), ID3V1_TAG_SIZE);
+
+			await FileAccess.writeAsync(file, ID3v1.create(frames), this.getID3v1FilePosition(fileEnd, fileSize));
+		}
+	}
+
+	/**
+	 * Create a tag which fills the space of the existing tag in a file, so that the audio doesn't have to be moved
+	 * @param frames - The frames to be in the tag
+	 * @param options - The options to write the tag with
+	 * @param locations - The locations of the tags in the file
+	 * @returns The tag and the position to write it at, or undefined if the tag to replace is appended, the new one
+	 * doesn't fill its space exactly, or other tags would have to be removed
+	 */
+	private createFileTag(frames: IFrames, options: IWriteOptions, locations: ITagLocation[]){
+		const location = options.tagPosition === undefined ?
+			(locations.length === 1 ? locations[0] : undefined) :
+			this.findLocation(locations, options.tagPosition);
+
+		//Appended tags and tags with a footer have no padding to fill the space with
+		if(location === undefined || location.isAppended || options.footer) {
+			return undefined;
+		}
+
+		const unpaddedSize = this.create(frames, { ...options, padding: 0 }).length;
+
+		if(unpaddedSize > location.size) {
+			return undefined;
+		}
+
+		const data = this.create(frames, { ...options, padding: location.size - unpaddedSize });
+
+		//Any bytes of the old tag which are left over would be read as audio
+		return data.length === location.size ? { position: location.position, data } : undefined;
+	}
+
+	/**
+	 * Get the position in a file to write an ID3v1 tag at, which replaces an existing ID3v1 tag
+	 * @param fileEnd - The last bytes of the file
+	 * @param fileSize - The size of the file
+	 * @returns The position of the existing ID3v1 tag, or the end of the file if there isn't one
+	 */
+	private getID3v1FilePosition(fileEnd: Buffer, fileSize: number){
+		return ID3v1.getTagPosition(fileEnd) === 0 ? fileSize - ID3V1_TAG_SIZE : fileSize;
+	}
+
+	/**
+	 * Set the length frame to the duration of the audio
+	 * @param frames - The frames to set the length in
+	 * @param audioInfo - The properties of the audio
+	 * @returns The frames, which are left as they are if the audio couldn't be analyzed
+	 */
+	private fillLength(frames: IFrames, audioInfo: IAudioInfo | undefined): IFrames {
+		return audioInfo === undefined ? frames : { ...frames, length: Math.round(audioInfo.duration).toString() };
+	}
+
+	/**
+	 * Analyze the MPEG audio in a file or buffer, only the start of the audio is read from a file
+	 * @param fileBuffer - The path of a file, or the data which contains the audio
+	 * @returns The properties of the audio, or undefined if no MPEG audio frame was found
+	 */
+	private getAudioInfo(fileBuffer: string | BinaryData){
+		const buffer = typeof fileBuffer === "string" ? undefined : BinaryDataConverter.toBuffer(fileBuffer);
+		const size = buffer === undefined ? FileAccess.getSize(fileBuffer as string) : buffer.length;
+		const read = buffer === undefined ?
+			this.getFileReader(fileBuffer as string) :
+			([ position, length ]: ReadRequest) => buffer.slice(position, position + length);
+
+		const { start, end } = MpegAudio.getAudioRange(
+			TagLocator.locateWith(read, size),
+			read(this.getID3v1Request(size)),
+			size
+		);
+
+		return MpegAudio.analyze(read([ start, Math.min(end - start, AUDIO_SEARCH_SIZE) ]), start, end - start);
+	}
+
+	/**
+	 * Get the part of a file or buffer where an ID3v1 tag may be
+	 * @param size - The size of the file or buffer
+	 * @returns The position and length of the last bytes
+	 */
+	private getID3v1Request(size: number): ReadRequest {
+		return [ Math.max(size - ID3V1_TAG_SIZE, 0), Math.min(size, ID3V1_TAG_SIZE) ];
+	}
+
+	/**
+	 * Get a function which reads parts of a file
+	 * @param file - The path of the file
+	 * @returns The function, which reads the part at a position and length
+	 */
+	private getFileReader(file: string){
+		return ([ position, length ]: ReadRequest) => FileAccess.read(file, position, length);
+	}
+
+	/**
+	 * Get a function which reads parts of a file asynchronously
+	 * @param file - The path of the file
+	 * @returns The function, which reads the part at a position and length
+	 */
+	private getFileReaderAsync(file: string){
+		return ([ position, length ]: ReadRequest) => FileAccess.readAsync(file, position, length);
+	}
+
+	/**
+	 * Read the tags of a file or buffer, only the tags are read from a file rather than the whole file
+	 * @param fileBuffer - The path of a file, or the data which contains the tags
+	 * @returns The ID3v2 tags and the last bytes, where an ID3v1 tag may be
+	 */
+	private readTagData(fileBuffer: string | BinaryData){
+		if(typeof fileBuffer === "string") {
+			return this.collectTagData(this.getFileReader(fileBuffer), FileAccess.getSize(fileBuffer));
+		}
+
+		const buffer = BinaryDataConverter.toBuffer(fileBuffer);
+
+		return this.collectTagData(([ position, length ]) => buffer.slice(position, position + length), buffer.length);
+	}
+
+	/**
+	 * Read the tags of a file asynchronously without reading the audio between them
+	 * @param file - The path of the file
+	 * @returns A promise which resolves to the ID3v2 tags and the last bytes, where an ID3v1 tag may be
+	 */
+	private async readFileTagDataAsync(file: string){
+		return this.collectTagDataAsync(this.getFileReaderAsync(file), await FileAccess.getSizeAsync(file));
+	}
+
+	/**
+	 * Find and read the tags in data which is read in parts
+	 * @param read - The function which reads a part of the data
+	 * @param size - The size of the data
+	 * @returns The ID3v2 tags and the last bytes, where an ID3v1 tag may be
+	 */
+	private collectTagData(read: (request: ReadRequest) => Buffer, size: number): ITags {
+		return {
+			tags: TagLocator.locateWith(read, size).map(location => ({
+				location,
+				data: read([ location.position, location.size ])
+			})),
+			end: read(this.getID3v1Request(size))
+		};
+	}
+
+	/**
+	 * Find and read the tags in data which is read in parts asynchronously
+	 * @param read - The function which reads a part of the data
+	 * @param size - The size of the data
+	 * @returns A promise which resolves to the ID3v2 tags and the last bytes, where an ID3v1 tag may be
+	 */
+	private async collectTagDataAsync(read: (request: ReadRequest) => Promise<Buffer>, size: number): Promise<ITags> {
+		const locations = await TagLocator.locateWithAsync(read, size);
+
+		const [ end, ...tags ] = await Promise.all([
+			read(this.getID3v1Request(size)),
+			...locations.map(({ position, size: tagSize }) => read([ position, tagSize ]))
+		]);
+
+		return {
+			tags: locations.map((location, index) => ({ location, data: tags[index] })),
+			end
+		};
+	}
+
+	/**
+	 * Read the ID3v2 and ID3v1 tags
+	 * @param tags - The tags which were read from the data
+	 * @param options - The options to read the tags with
+	 * @returns The ID3 information and the problems which were found in the ID3v2 tags
+	 */
+	private readTags(tags: ITags, options: IReadOptions): IReadResult {
+		const decodingOptions: IDecodingOptions = {
+			...options,
+			mode: options.mode === undefined ? "lenient" : options.mode,
+			warnings: []
+		};
+		const id3v1Mode = options.id3v1 === undefined ? "fallback" : options.id3v1;
+
+		const frames = id3v1Mode === "ignore" || (id3v1Mode === "fallback" && tags.tags.length > 0) ?
+			this.readID3v2(tags.tags, decodingOptions) :
+			{ ...ID3v1.read(tags.end), ...this.readID3v2(tags.tags, decodingOptions) };
+
+		return { frames, warnings: decodingOptions.warnings };
+	}
+
+	/**
+	 * Read the ID3v2 tags
+	 * @param tags - The tags to read
+	 * @param options - The options to read the tags with, which the problems in the tags are reported to
+	 * @returns The ID3 information of the tag at the chosen position, or of the first tag merged with the tags after it
+	 * which are marked as updates
+	 */
+	private readID3v2(tags: ITagData[], options: IDecodingOptions) {
+		const tagsToRead = options.tagPosition === undefined ?
+			tags :
+			tags.filter(({ location }) => location.position === options.tagPosition);
+		let frames: IFrames | undefined;
+
+		for(const tagData of tagsToRead) {
+			const tag = this.readTagBody(tagData, options);
+
+			if(tag === undefined) {
+				continue;
+			}
+
+			//A tag which isn't an update is independent of the tags before it
+			if(frames !== undefined && (tag.extendedHeader === undefined || !tag.extendedHeader.isUpdate)) {
+				break;
+			}
+
+			frames = { ...frames, ...this.decodeTag(tag, options) };
+		}
+
+		return frames === undefined ? {} : frames;
+	}
+
+	/**
+	 * Decode the frames of an ID3v2 tag
+	 * @param tag - The tag, as read by readTagBody()
+	 * @param options - The options to read the tag with, which the problems in the tag are reported to
+	 * @returns The ID3 information
+	 */
+	private decodeTag(tag: ITagBody, options: IDecodingOptions) {
+		const { position, version: ID3Version, isUnsynchronised, body: tagBody, extendedHeader } = tag;
+
+		if (extendedHeader !== undefined && extendedHeader.crcValid === false) {
+			if (options.verifyCrc) {
+				throw new CrcMismatchError(position);
+			}
+
+			report(new CrcMismatchError(position), options);
+		}
+
+		const frames = FrameReader.readFrames(
+			tagBody,
+			ID3Version,
+			isUnsynchronised,
+			options,
+			extendedHeader === undefined ? 0 : extendedHeader.size,
+			position + 10
+		);
+
+		return FrameDecoder.decodeFrames(frames, ID3Version, options);
+	}
+
+	/**
+	 * Read the body of an ID3v2 tag, which follows the tag header
+	 * @param tagData - The tag and where it was found
+	 * @param options - The options which the problems in the tag header are reported to
+	 * @returns The tag position, version and body, with the unsynchronisation of tags before ID3v2.4.0 removed, or
+	 * undefined if its version or its extended header can't be read
+	 */
+	private readTagBody({ location, data }: ITagData, options: IDecodingOptions): ITagBody | undefined {
+		const framePosition = location.position;
+		const ID3Frame = data.slice(0, 10);
+		const frameSize = decodeSyncsafeSize(ID3Frame.slice(6, 10));
+
+		//ID3 version e.g. 3 if ID3v2.3.0
+		const version = ID3Frame[3];
+
+		if (version < 2 || version > 4) {
+			report(new UnsupportedVersionError(version, framePosition), options);
+
+			return undefined;
+		}
+
+		// tslint:disable-next-line: no-bitwise
+		if ((ID3Frame[6] | ID3Frame[7] | ID3Frame[8] | ID3Frame[9]) & 0x80) {
+			report(new InvalidTagSizeError("The tag size is not a syncsafe integer", framePosition), options);
+		}
+
+		if (frameSize + 10 > data.length) {
+			report(new InvalidTagSizeError(
+				`The tag is ${frameSize} bytes but only ${Math.max(data.length - 10, 0)} are left`,
+				framePosition
+			), options);
+		}
+
+		//A tag which is cut off is read up to the end of the data, so that the frame which is cut off is reported
+		const ID3FrameBody = data.slice(10, frameSize + 10);
+
+		// tslint:disable: no-bitwise
+		const isUnsynchronised = (ID3Frame[5] & TAG_UNSYNCHRONISATION_FLAG) !== 0;
+		const hasExtendedHeader = version > 2 && (ID3Frame[5] & TAG_EXTENDED_HEADER_FLAG) !== 0;
+		// tslint:enable: no-bitwise
+
+		//Before ID3v2.4.0 the unsynchronisation is applied to the whole tag, rather than to each frame
+		const body = isUnsynchronised && version < 4 ? Unsynchronisation.remove(ID3FrameBody) : ID3FrameBody;
+
+		const extendedHeader = hasExtendedHeader ? this.readExtendedHeaderOf(body, version, framePosition, options) : undefined;
+
+		//The frames start after the extended header, so they can't be found when its size is wrong
+		if (hasExtendedHeader && extendedHeader === undefined) {
+			return undefined;
+		}
+
+		return {
+			position: framePosition,
+			version,
+			isUnsynchronised,
+			body,
+			extendedHeader
+		};
+	}
+
+	/**
+	 * Read the extended header of an ID3v2 tag
+	 * @param body - The body of the tag
+	 * @param version - The minor version of the tag
+	 * @param position - The position of the tag
+	 * @param options - The options which a problem with the extended header is reported to
+	 * @returns The extended header, or undefined if it is cut off or its size is invalid
+	 */
+	private readExtendedHeaderOf(body: Buffer, version: number, position: number, options: IDecodingOptions){
+		try {
+			return ExtendedHeader.read(body, version);
+		} catch(error) {
+			report(new InvalidTagSizeError((error as Error).message, position + 10), options);
+
+			return undefined;
+		}
 	}
 }
 
+export { PictureType } from "./pictureType";
+export { TimestampFormat } from "./timestampFormat";
+export { SynchronisedTextType } from "./synchronisedTextType";
+export { ChannelType } from "./channelType";
+export { ChannelMode } from "./channelMode";
+export { TagWriteStream, TagReadStream };
+export { BinaryData, IBlob } from "./binaryData";
+export { IDecodedFrame } from "./frameReader";
+export { IReplayGain } from "./replayGain";
+export { INormalisedFrames, IPosition } from "./normalisedFrames";
+export { ITagLocation } from "./tagLocator";
+export { IAudioInfo } from "./mpegAudio";
+export { ID3Error, InvalidTagSizeError, UnsupportedVersionError, CrcMismatchError };
+export { default as TruncatedFrameError } from "./truncatedFrameError";
+export { default as InvalidFrameError } from "./invalidFrameError";
+export { default as UnwritableFrameError } from "./unwritableFrameError";
+
 export default new NodeID3();
@@ -0,0 +1,18 @@
+import ID3Error from "./id3Error";
+
+/**
+ * A frame has an invalid ID or a body which can't be decoded
+ */
+export default class InvalidFrameError extends ID3Error {
+	/**
+	 * Create an error
+	 * @param message - The description of the problem
+	 * @param offset - The position of the frame header
+	 * @param frameId - The ID of the frame
+	 */
+	public constructor(message: string, offset: number, frameId: string){
+		super(message, offset, frameId);
+
+		this.name = "InvalidFrameError";
+	}
+}
@@ -0,0 +1,17 @@
+import ID3Error from "./id3Error";
+
+/**
+ * The size in the header of a tag is not a syncsafe integer, or the tag extends past the end of the data
+ */
+export default class InvalidTagSizeError extends ID3Error {
+	/**
+	 * Create an error
+	 * @param message - The description of the problem
+	 * @param offset - The position of the tag header
+	 */
+	public constructor(message: string, offset: number){
+		super(message, offset);
+
+		this.name = "InvalidTagSizeError";
+	}
+}
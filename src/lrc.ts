@@ -0,0 +1,106 @@
+import { ISynchronisedLyricsFrame, ISynchronisedText } from "./frameDefinitions";
+import { ILrcOptions } from "./options";
+import { TimestampFormat } from "./timestampFormat";
+import { SynchronisedTextType } from "./synchronisedTextType";
+
+/**
+ * A tag at the start of an LRC line, either a timestamp or metadata such as [ar:Artist]
+ */
+const TAG_PATTERN = /^\[([^\]]*)\]/;
+
+/**
+ * A timestamp in the format mm:ss.xx, where the fraction of a second is optional and may have one to three digits
+ */
+const TIMESTAMP_PATTERN = /^(\d+):(\d{1,2})(?:[.:](\d{1,3}))?$/;
+
+/**
+ * Converts synchronised lyrics to and from the LRC format, in which each line is preceded by its [mm:ss.xx] timestamps
+ */
+export default class Lrc {
+	/**
+	 * Convert LRC lyrics to synchronised lyrics
+	 * @param lrc - The contents of the LRC file
+	 * @param options - The language and descriptor of the lyrics
+	 * @returns The synchronised lyrics with millisecond timestamps, sorted by their timestamps
+	 */
+	public static parse(lrc: string, options: ILrcOptions = {}): ISynchronisedLyricsFrame {
+		const lyrics: ISynchronisedText[] = [];
+		let offset = 0;
+
+		for(const line of lrc.split(/\r?\n/)) {
+			const timestamps: number[] = [];
+			let text = line.trim();
+
+			for(let tag = TAG_PATTERN.exec(text); tag; tag = TAG_PATTERN.exec(text)) {
+				const timestamp = this.parseTimestamp(tag[1]);
+
+				if(timestamp !== undefined) {
+					timestamps.push(timestamp);
+				} else if(tag[1].startsWith("offset:")) {
+					offset = parseInt(tag[1].substring(7), 10) || 0;
+				}
+
+				text = text.substring(tag[0].length);
+			}
+
+			lyrics.push(...timestamps.map(timestamp => ({ text, timestamp })));
+		}
+
+		//A positive offset makes the lyrics appear sooner
+		return {
+			language: options.language === undefined ? "eng" : options.language,
+			timestampFormat: TimestampFormat.Milliseconds,
+			contentType: SynchronisedTextType.Lyrics,
+			description: options.description === undefined ? "" : options.description,
+			lyrics: lyrics
+				.map(({ text, timestamp }) => ({ text, timestamp: Math.max(timestamp - offset, 0) }))
+				.sort((a, b) => a.timestamp - b.timestamp)
+		};
+	}
+
+	/**
+	 * Convert synchronised lyrics to LRC lyrics
+	 * @param lyrics - The synchronised lyrics, which must have millisecond timestamps
+	 * @returns The contents of an LRC file
+	 */
+	public static stringify(lyrics: ISynchronisedLyricsFrame){
+		if(lyrics.timestampFormat !== TimestampFormat.Milliseconds) {
+			throw new Error("Only synchronised lyrics with millisecond timestamps can be converted to LRC");
+		}
+
+		//Lines of synchronised lyrics often start with a line break, which LRC already has between lines
+		return lyrics.lyrics
+			.map(({ text, timestamp }) => `[${this.formatTimestamp(timestamp)}]${text.replace(/^[\r\n]+/, "")}`)
+			.join("\n");
+	}
+
+	/**
+	 * Parse an LRC timestamp
+	 * @param timestamp - The timestamp in the format mm:ss.xx, without its brackets
+	 * @returns The timestamp in milliseconds, or undefined if it isn't a timestamp
+	 */
+	private static parseTimestamp(timestamp: string){
+		const match = TIMESTAMP_PATTERN.exec(timestamp);
+
+		if(!match) {
+			return undefined;
+		}
+
+		const fraction = match[3] ? Math.round(parseFloat(`0.${match[3]}`) * 1000) : 0;
+
+		return (parseInt(match[1], 10) * 60 + parseInt(match[2], 10)) * 1000 + fraction;
+	}
+
+	/**
+	 * Format a timestamp for LRC
+	 * @param timestamp - The timestamp in milliseconds
+	 * @returns The timestamp in the format mm:ss.xx
+	 */
+	private static formatTimestamp(timestamp: number){
+		const minutes = Math.floor(timestamp / 60000);
+		const seconds = Math.floor(timestamp / 1000) % 60;
+		const hundredths = Math.floor(timestamp / 10) % 100;
+
+		return `${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}.${hundredths.toString().padStart(2, "0")}`;
+	}
+}
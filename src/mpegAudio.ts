@@ -0,0 +1,160 @@
+import { ChannelMode } from "./channelMode";
+import { ITagLocation } from "./tagLocator";
+import ID3v1 from "./id3v1";
+import MpegFrameHeader from "./mpegFrameHeader";
+import VbrHeader from "./vbrHeader";
+
+/**
+ * The properties of the MPEG audio in a file
+ */
+export interface IAudioInfo {
+	/**
+	 * The MPEG version, 1, 2 or 2.5
+	 */
+	version: number;
+
+	/**
+	 * The MPEG layer, 1, 2 or 3
+	 */
+	layer: number;
+
+	/**
+	 * The bitrate in kbit/s, which is the average bitrate if the bitrate is variable
+	 */
+	bitrate: number;
+
+	/**
+	 * The sample rate in Hz
+	 */
+	sampleRate: number;
+
+	/**
+	 * The channel mode
+	 */
+	channelMode: ChannelMode;
+
+	/**
+	 * Whether a Xing or VBRI header marks the bitrate as variable
+	 */
+	isVariableBitrate: boolean;
+
+	/**
+	 * The number of audio frames, from the Xing, Info or VBRI header
+	 */
+	frameCount?: number;
+
+	/**
+	 * The number of silent samples which the encoder added at the start, from the LAME or VBRI header
+	 */
+	encoderDelay?: number;
+
+	/**
+	 * The number of silent samples which the encoder added at the end, from the LAME header
+	 */
+	encoderPadding?: number;
+
+	/**
+	 * The duration in milliseconds
+	 */
+	duration: number;
+
+	/**
+	 * The position of the first audio frame
+	 */
+	audioStart: number;
+}
+
+/**
+ * The number of bytes at the start of the audio which are searched for the first frame
+ */
+export const AUDIO_SEARCH_SIZE = 65536;
+
+/**
+ * Reads the header of the first MPEG audio frame and the Xing, Info, VBRI and LAME headers which may be in it, to work
+ * out the properties and duration of the audio
+ */
+export default class MpegAudio {
+	/**
+	 * Get the part of a file which contains the audio
+	 * @param locations - The locations of the ID3v2 tags in the file
+	 * @param fileEnd - The last bytes of the file, which may contain an ID3v1 tag
+	 * @param fileSize - The size of the file
+	 * @returns The position after the tags at the start of the file, and the position of the first tag after the audio
+	 */
+	public static getAudioRange(locations: ITagLocation[], fileEnd: Buffer, fileSize: number){
+		//The tag at the start may be directly followed by more tags
+		const start = locations.reduce((position, location, index) => {
+			return (index === 0 && !location.isAppended) || location.position === position ?
+				location.position + location.size :
+				position;
+		}, 0);
+
+		const ID3v1Position = ID3v1.getTagPosition(fileEnd);
+
+		const end = Math.min(
+			ID3v1Position === -1 ? fileSize : fileSize - fileEnd.length + ID3v1Position,
+			...locations.filter(({ position }) => position >= start).map(({ position }) => position)
+		);
+
+		return { start, end: Math.max(start, end) };
+	}
+
+	/**
+	 * Analyze the audio
+	 * @param data - The start of the audio, up to AUDIO_SEARCH_SIZE bytes
+	 * @param audioStart - The position of the audio in the file
+	 * @param audioSize - The size of the audio, up to the tags at the end of the file
+	 * @returns The properties of the audio, or undefined if no MPEG audio frame was found
+	 */
+	public static analyze(data: Buffer, audioStart: number, audioSize: number): IAudioInfo | undefined {
+		const firstFrame = MpegFrameHeader.findFirst(data);
+
+		if(firstFrame === undefined) {
+			return undefined;
+		}
+
+		const { position, header } = firstFrame;
+		const vbrHeader = VbrHeader.read(data, position, header);
+		const size = audioSize - position;
+
+		const audioInfo: IAudioInfo = {
+			version: header.version,
+			layer: header.layer,
+			bitrate: header.bitrate,
+			sampleRate: header.sampleRate,
+			channelMode: header.channelMode,
+			isVariableBitrate: vbrHeader !== undefined && vbrHeader.isVariableBitrate,
+			//Without a frame count the duration can only be worked out from the bitrate of the first frame
+			duration: size * 8 / header.bitrate,
+			audioStart: audioStart + position
+		};
+
+		if(vbrHeader === undefined) {
+			return audioInfo;
+		}
+
+		const { frameCount, byteCount, encoderDelay, encoderPadding } = vbrHeader;
+
+		if(encoderDelay !== undefined) {
+			audioInfo.encoderDelay = encoderDelay;
+		}
+
+		if(encoderPadding !== undefined) {
+			audioInfo.encoderPadding = encoderPadding;
+		}
+
+		if(frameCount !== undefined) {
+			//The samples which the encoder added are not part of the duration, as gapless players skip them
+			const sampleCount = frameCount * header.samplesPerFrame - (encoderDelay || 0) - (encoderPadding || 0);
+
+			audioInfo.frameCount = frameCount;
+			audioInfo.duration = Math.max(sampleCount, 0) * 1000 / header.sampleRate;
+
+			if(audioInfo.duration > 0) {
+				audioInfo.bitrate = Math.round((byteCount === undefined ? size : byteCount) * 8 / audioInfo.duration);
+			}
+		}
+
+		return audioInfo;
+	}
+}
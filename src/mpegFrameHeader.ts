@@ -0,0 +1,149 @@
+import { ChannelMode } from "./channelMode";
+
+/**
+ * The header of an MPEG audio frame
+ */
+export interface IFrameHeader {
+	/**
+	 * The MPEG version
+	 */
+	version: number;
+
+	/**
+	 * The MPEG layer
+	 */
+	layer: number;
+
+	/**
+	 * The bitrate in kbit/s
+	 */
+	bitrate: number;
+
+	/**
+	 * The sample rate in Hz
+	 */
+	sampleRate: number;
+
+	/**
+	 * The channel mode
+	 */
+	channelMode: ChannelMode;
+
+	/**
+	 * The number of samples in the frame
+	 */
+	samplesPerFrame: number;
+
+	/**
+	 * The size of the frame including its header
+	 */
+	frameSize: number;
+}
+
+/**
+ * The MPEG versions, by the value of their bits in the frame header
+ */
+const VERSIONS = [ 2.5, undefined, 2, 1 ];
+
+/**
+ * The bitrates in kbit/s of MPEG-1 and of MPEG-2 and 2.5, for layers 1, 2 and 3, by the bitrate index starting at 1
+ */
+const BITRATES = [
+	[
+		[ 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448 ],
+		[ 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384 ],
+		[ 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320 ]
+	],
+	[
+		[ 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256 ],
+		[ 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160 ],
+		[ 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160 ]
+	]
+];
+
+/**
+ * The sample rates in Hz, by the value of the version bits and then the sample rate index
+ */
+const SAMPLE_RATES = [
+	[ 11025, 12000, 8000 ],
+	[],
+	[ 22050, 24000, 16000 ],
+	[ 44100, 48000, 32000 ]
+];
+
+/**
+ * Reads the headers of MPEG audio frames
+ */
+export default class MpegFrameHeader {
+	/**
+	 * Find the first MPEG audio frame
+	 * @param data - The start of the audio
+	 * @returns The position and header of the frame, or undefined if there isn't one
+	 */
+	public static findFirst(data: Buffer){
+		for(let position = data.indexOf(0xFF); position !== -1; position = data.indexOf(0xFF, position + 1)) {
+			const header = this.read(data, position);
+
+			if(header === undefined) {
+				continue;
+			}
+
+			//A frame sync can occur by chance, so the frame must be followed by another frame of the same audio
+			const nextPosition = position + header.frameSize;
+			const nextHeader = this.read(data, nextPosition);
+
+			if(
+				nextPosition + 4 > data.length ||
+				(
+					nextHeader !== undefined &&
+					nextHeader.version === header.version &&
+					nextHeader.layer === header.layer &&
+					nextHeader.sampleRate === header.sampleRate
+				)
+			) {
+				return { position, header };
+			}
+		}
+
+		return undefined;
+	}
+
+	/**
+	 * Read an MPEG audio frame header
+	 * @param data - The data which contains the header
+	 * @param position - The position of the header
+	 * @returns The header, or undefined if there isn't a valid one at the position, free format frames are not supported
+	 */
+	public static read(data: Buffer, position: number): IFrameHeader | undefined {
+		// tslint:disable: no-bitwise
+		if(position + 4 > data.length || data[position] !== 0xFF || (data[position + 1] & 0xE0) !== 0xE0) {
+			return undefined;
+		}
+
+		const versionBits = (data[position + 1] >> 3) & 0x03;
+		const layerBits = (data[position + 1] >> 1) & 0x03;
+		const bitrateIndex = data[position + 2] >> 4;
+		const sampleRateIndex = (data[position + 2] >> 2) & 0x03;
+		const padding = (data[position + 2] >> 1) & 0x01;
+		const channelMode: ChannelMode = data[position + 3] >> 6;
+		// tslint:enable: no-bitwise
+
+		const version = VERSIONS[versionBits];
+
+		if(version === undefined || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 0x0F || sampleRateIndex === 3) {
+			return undefined;
+		}
+
+		const layer = 4 - layerBits;
+		const bitrate = BITRATES[version === 1 ? 0 : 1][layer - 1][bitrateIndex - 1];
+		const sampleRate = SAMPLE_RATES[versionBits][sampleRateIndex];
+		const samplesPerFrame = layer === 1 ? 384 : layer === 3 && version !== 1 ? 576 : 1152;
+
+		//Layer 1 frames are made of 4 byte slots
+		const frameSize = layer === 1 ?
+			(Math.floor(bitrate * 12000 / sampleRate) + padding) * 4 :
+			Math.floor(samplesPerFrame / 8 * bitrate * 1000 / sampleRate) + padding;
+
+		return { version, layer, bitrate, sampleRate, channelMode, samplesPerFrame, frameSize };
+	}
+}
@@ -0,0 +1,195 @@
+import { IFrames } from "./frameDefinitions";
+import VersionConverter from "./versionConverter";
+
+/**
+ * The position of an item in a set, such as a track on an album
+ */
+export interface IPosition {
+	/**
+	 * The number of the item, starting at 1
+	 */
+	number: number;
+
+	/**
+	 * The number of items in the set, if it is known
+	 */
+	total?: number;
+}
+
+/**
+ * The numeric and date frames, parsed from the strings which they are stored as
+ */
+export interface INormalisedFrames {
+	/**
+	 * The position of the track on the album, from TRCK
+	 */
+	trackNumber?: IPosition;
+
+	/**
+	 * The position of the disc in the set, from TPOS
+	 */
+	partOfSet?: IPosition;
+
+	/**
+	 * The beats per minute, from TBPM
+	 */
+	bpm?: number;
+
+	/**
+	 * The length of the audio in milliseconds, from TLEN
+	 */
+	length?: number;
+
+	/**
+	 * The recording time as an ISO 8601 timestamp, e.g. 2020-05-17T12:30, from TDRC or from TYER, TDAT and TIME
+	 */
+	recordingTime?: string;
+
+	/**
+	 * The original release time as an ISO 8601 timestamp, from TDOR or TORY
+	 */
+	originalReleaseTime?: string;
+}
+
+/**
+ * The timestamps which ID3v2.4.0 allows, an ISO 8601 timestamp which may be cut off after any of its parts
+ */
+const TIMESTAMP_PATTERN = /^\d{4}(-\d{2}(-\d{2}(T\d{2}(:\d{2}(:\d{2})?)?)?)?)?$/;
+
+/**
+ * Reads and writes the numeric and date frames as numbers, positions and ISO 8601 timestamps rather than strings
+ */
+export default class NormalisedFrames {
+	/**
+	 * Parse the numeric and date frames
+	 * @param frames - The frames to parse, as read from a tag of any version
+	 * @returns The parsed values, a value is left out if its frame is missing or can't be parsed
+	 */
+	public static read(frames: IFrames): INormalisedFrames {
+		//The ID3v2.3.0 date frames are merged into the ID3v2.4.0 timestamps
+		const converted = VersionConverter.convert(frames, 4);
+
+		const values: INormalisedFrames = {
+			trackNumber: this.readPosition(frames.trackNumber),
+			partOfSet: this.readPosition(frames.partOfSet),
+			bpm: this.readNumber(frames.bpm),
+			length: this.readNumber(frames.length),
+			recordingTime: this.readTimestamp(converted.recordingTime),
+			originalReleaseTime: this.readTimestamp(converted.originalReleaseTime)
+		};
+
+		//Values which can't be parsed are left out rather than set to undefined
+		const normalised: {[key: string]: unknown} = {};
+
+		for(const [ key, value ] of Object.entries(values)) {
+			if(value !== undefined) {
+				normalised[key] = value;
+			}
+		}
+
+		return normalised as INormalisedFrames;
+	}
+
+	/**
+	 * Write parsed values to the numeric and date frames
+	 * @param frames - The frames to write the values to
+	 * @param normalised - The values to write, the frames of a value which is undefined are left as they are
+	 * @returns The frames, the dates are written as both the ID3v2.4.0 timestamps and the ID3v2.3.0 frames so that
+	 * they are correct for whichever version is written
+	 */
+	public static write(frames: IFrames, normalised: INormalisedFrames): IFrames {
+		const updated = { ...frames };
+
+		if(normalised.trackNumber !== undefined) {
+			updated.trackNumber = this.writePosition(normalised.trackNumber);
+		}
+
+		if(normalised.partOfSet !== undefined) {
+			updated.partOfSet = this.writePosition(normalised.partOfSet);
+		}
+
+		if(normalised.bpm !== undefined) {
+			updated.bpm = Math.round(normalised.bpm).toString();
+		}
+
+		if(normalised.length !== undefined) {
+			updated.length = Math.round(normalised.length).toString();
+		}
+
+		if(normalised.recordingTime !== undefined) {
+			updated.recordingTime = this.writeTimestamp(normalised.recordingTime);
+			delete updated.year;
+			delete updated.date;
+			delete updated.time;
+		}
+
+		if(normalised.originalReleaseTime !== undefined) {
+			updated.originalReleaseTime = this.writeTimestamp(normalised.originalReleaseTime);
+			delete updated.originalYear;
+		}
+
+		//The ID3v2.3.0 date frames are filled in again from the timestamps
+		return VersionConverter.convert(updated, 3);
+	}
+
+	/**
+	 * Parse a position, e.g. "3/12" or "3"
+	 * @param value - The value of the frame
+	 * @returns The position, or undefined if the value doesn't start with a number
+	 */
+	private static readPosition(value: string | undefined): IPosition | undefined {
+		const match = /^\s*(\d+)\s*(?:\/\s*(\d+))?/.exec(value === undefined ? "" : value);
+
+		if(!match) {
+			return undefined;
+		}
+
+		return match[2] ?
+			{ number: parseInt(match[1], 10), total: parseInt(match[2], 10) } :
+			{ number: parseInt(match[1], 10) };
+	}
+
+	/**
+	 * Parse a number
+	 * @param value - The value of the frame
+	 * @returns The number, or undefined if the value isn't a number
+	 */
+	private static readNumber(value: string | undefined){
+		const parsed = value === undefined ? NaN : parseFloat(value);
+
+		return isNaN(parsed) ? undefined : parsed;
+	}
+
+	/**
+	 * Check a timestamp
+	 * @param value - The merged timestamp
+	 * @returns The timestamp, or undefined if it isn't in the format of ID3v2.4.0
+	 */
+	private static readTimestamp(value: string | undefined){
+		return value !== undefined && TIMESTAMP_PATTERN.test(value.trim()) ? value.trim() : undefined;
+	}
+
+	/**
+	 * Format a position
+	 * @param position - The position to format
+	 * @returns The position, e.g. "3/12", or "3" if the total is unknown
+	 */
+	private static writePosition(position: IPosition){
+		return position.total === undefined ? position.number.toString() : `${position.number}/${position.total}`;
+	}
+
+	/**
+	 * Check a timestamp before it is written
+	 * @param timestamp - The timestamp, which may be a full ISO 8601 timestamp such as from Date.toISOString()
+	 * @returns The timestamp, with the milliseconds and time zone cut off as ID3 doesn't store them
+	 */
+	private static writeTimestamp(timestamp: string){
+		const trimmed = timestamp.trim().substring(0, 19);
+
+		if(!TIMESTAMP_PATTERN.test(trimmed)) {
+			throw new Error(`Invalid timestamp: ${timestamp}`);
+		}
+
+		return trimmed;
+	}
+}
@@ -0,0 +1,152 @@
+import { ITagRestrictions } from "./extendedHeader";
+import { AllFrameAliases } from "./frameDefinitions";
+import ID3Error from "./id3Error";
+
+/**
+ * The ID3v2 minor versions which can be written
+ */
+export type WritableVersion = 3 | 4;
+
+/**
+ * The text encodings of ID3v2, UTF-16BE and UTF-8 were added in ID3v2.4.0
+ */
+export type TextEncodingName = "ISO-8859-1" | "UTF-16" | "UTF-16BE" | "UTF-8";
+
+/**
+ * Options which alter how a tag is written
+ */
+export interface IWriteOptions {
+	/**
+	 * The minor version of the tag to write, 3 for ID3v2.3.0 or 4 for ID3v2.4.0, defaults to 3
+	 */
+	version?: WritableVersion;
+
+	/**
+	 * Whether to also write an ID3v1.1 tag to the end of the file, replacing any existing one, defaults to false
+	 */
+	id3v1?: boolean;
+
+	/**
+	 * Whether to apply the unsynchronisation scheme, for old players which mistake parts of the tag for MPEG frames,
+	 * defaults to false
+	 */
+	unsynchronisation?: boolean;
+
+	/**
+	 * The information to write in an extended header, no extended header is written if this isn't set
+	 */
+	extendedHeader?: IExtendedHeaderOptions;
+
+	/**
+	 * The frames to compress with zlib, e.g. [ "image" ], unknown frames are compressed if they were when read
+	 */
+	compressedFrames?: AllFrameAliases[];
+
+	/**
+	 * The number of zero bytes to add after the frames, so that later edits can be written over the existing tag
+	 * without moving the audio, defaults to 0
+	 */
+	padding?: number;
+
+	/**
+	 * Whether to write a genre which is in the genre table as a reference to it, e.g. "(17)" in ID3v2.3.0 or "17" in
+	 * ID3v2.4.0 rather than "Rock", defaults to false
+	 */
+	numericGenres?: boolean;
+
+	/**
+	 * The separator which is written between the values of a text frame in ID3v2.3.0, ID3v2.4.0 always separates them
+	 * with a zero byte, defaults to "/"
+	 */
+	separator?: string;
+
+	/**
+	 * Whether to write a footer after an ID3v2.4.0 tag, which is needed for a tag at the end of a file to be found, no
+	 * padding is written after a tag with a footer, defaults to false
+	 */
+	footer?: boolean;
+
+	/**
+	 * The position of the tag to replace, as found by locate(), the tag is replaced where it is and keeps its footer if
+	 * it is appended, by default all of the ID3v2 tags are replaced by one at the start
+	 */
+	tagPosition?: number;
+
+	/**
+	 * The encoding to write text in, "auto" writes ISO-8859-1 when the text fits in it and otherwise UTF-8 in ID3v2.4.0
+	 * or UTF-16 in ID3v2.3.0, UTF-16 is written instead of UTF-16BE and UTF-8 in ID3v2.3.0, defaults to UTF-16
+	 */
+	encoding?: TextEncodingName | "auto";
+
+	/**
+	 * Whether to set the length frame (TLEN) to the duration of the MPEG audio, it is left as it is if the audio can't
+	 * be analyzed, defaults to false
+	 */
+	fillLength?: boolean;
+
+	/**
+	 * An array which an UnwritableFrameError is added to for each unknown frame which can't be written back, e.g. one
+	 * with a three character ID3v2.2.0 ID
+	 */
+	warnings?: ID3Error[];
+}
+
+/**
+ * The write options which are passed to the frame encoder, with the version resolved
+ */
+export interface IEncodingOptions extends IWriteOptions {
+	/**
+	 * The minor version of the tag which is being written
+	 */
+	version: WritableVersion;
+}
+
+/**
+ * The information which can be written in an extended header
+ */
+export interface IExtendedHeaderOptions {
+	/**
+	 * Whether to include a CRC-32 of the frames
+	 */
+	crc?: boolean;
+
+	/**
+	 * Whether to mark the tag as an update of an earlier tag in the file, only written to ID3v2.4.0 tags
+	 */
+	isUpdate?: boolean;
+
+	/**
+	 * The restrictions which the tag complies with, only written to ID3v2.4.0 tags
+	 */
+	restrictions?: ITagRestrictions;
+}
+
+/**
+ * Options for converting LRC lyrics to synchronised lyrics
+ */
+export interface ILrcOptions {
+	/**
+	 * The three character ISO-639-2 language code of the lyrics, defaults to eng
+	 */
+	language?: string;
+
+	/**
+	 * The content descriptor of the lyrics, defaults to an empty string
+	 */
+	description?: string;
+}
+
+/**
+ * The forms in which ReplayGain can be stored, as the aliases of their frames
+ */
+export type ReplayGainForm = "userDefinedText" | "relativeVolumeAdjustment" | "volumeAdjustment";
+
+/**
+ * Options for setting ReplayGain values in frames
+ */
+export interface IReplayGainOptions {
+	/**
+	 * The forms to store the values in, defaults to the REPLAYGAIN_* user defined text frames
+	 */
+	forms?: ReplayGainForm[];
+}
@@ -0,0 +1,109 @@
+/**
+ * The type of a picture in an APIC or PIC frame
+ */
+export enum PictureType {
+	/**
+	 * Other
+	 */
+	Other = 0x00,
+
+	/**
+	 * A 32x32 pixels file icon, PNG only
+	 */
+	FileIcon = 0x01,
+
+	/**
+	 * Other file icon
+	 */
+	OtherFileIcon = 0x02,
+
+	/**
+	 * Cover (front)
+	 */
+	FrontCover = 0x03,
+
+	/**
+	 * Cover (back)
+	 */
+	BackCover = 0x04,
+
+	/**
+	 * Leaflet page
+	 */
+	LeafletPage = 0x05,
+
+	/**
+	 * Media, e.g. the label side of a CD
+	 */
+	Media = 0x06,
+
+	/**
+	 * Lead artist, lead performer or soloist
+	 */
+	LeadArtist = 0x07,
+
+	/**
+	 * Artist or performer
+	 */
+	Artist = 0x08,
+
+	/**
+	 * Conductor
+	 */
+	Conductor = 0x09,
+
+	/**
+	 * Band or orchestra
+	 */
+	Band = 0x0A,
+
+	/**
+	 * Composer
+	 */
+	Composer = 0x0B,
+
+	/**
+	 * Lyricist or text writer
+	 */
+	Lyricist = 0x0C,
+
+	/**
+	 * Recording location
+	 */
+	RecordingLocation = 0x0D,
+
+	/**
+	 * During recording
+	 */
+	DuringRecording = 0x0E,
+
+	/**
+	 * During performance
+	 */
+	DuringPerformance = 0x0F,
+
+	/**
+	 * Movie or video screen capture
+	 */
+	ScreenCapture = 0x10,
+
+	/**
+	 * A bright coloured fish
+	 */
+	BrightColouredFish = 0x11,
+
+	/**
+	 * Illustration
+	 */
+	Illustration = 0x12,
+
+	/**
+	 * Band or artist logotype
+	 */
+	BandLogo = 0x13,
+
+	/**
+	 * Publisher or studio logotype
+	 */
+	PublisherLogo = 0x14
+}
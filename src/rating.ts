@@ -0,0 +1,40 @@
+/**
+ * The popularimeter rating which each number of stars is written as, these are the values which Windows Media Player
+ * writes and which most other players read
+ */
+const STAR_RATINGS = [ 0, 1, 64, 128, 196, 255 ];
+
+/**
+ * The lowest popularimeter rating which is read as each number of stars, so that the ratings which other players
+ * write are rounded to the nearest star
+ */
+const STAR_THRESHOLDS = [ 0, 1, 32, 96, 160, 224 ];
+
+/**
+ * Converts the popularimeter rating from 0 to 255 to and from the five star scale of media players
+ */
+export default class Rating {
+	/**
+	 * Convert a popularimeter rating to stars
+	 * @param rating - The rating from 0 to 255, 0 is unknown
+	 * @returns The number of stars from 1 to 5, or 0 if the rating is unknown
+	 */
+	public static toStars(rating: number){
+		let stars = 0;
+
+		while(stars < 5 && rating >= STAR_THRESHOLDS[stars + 1]) {
+			stars++;
+		}
+
+		return stars;
+	}
+
+	/**
+	 * Convert stars to a popularimeter rating
+	 * @param stars - The number of stars from 0 to 5, fractions of stars are rounded
+	 * @returns The rating from 0 to 255
+	 */
+	public static fromStars(stars: number){
+		return STAR_RATINGS[Math.min(Math.max(Math.round(stars), 0), 5)];
+	}
+}
@@ -0,0 +1,84 @@
+import ID3Error from "./id3Error";
+
+/**
+ * How an ID3v1 tag at the end of the file is used when reading
+ * - ignore: The ID3v1 tag is never read
+ * - fallback: The ID3v1 tag is only read if there is no ID3v2 tag
+ * - merge: The ID3v1 tag is read and any frames it has which the ID3v2 tag doesn't are added
+ */
+export type ID3v1ReadMode = "ignore" | "fallback" | "merge";
+
+/**
+ * How problems in a tag are handled when reading
+ * - strict: An error is thrown for the first problem
+ * - lenient: The frames which can still be read are returned, along with a warning for each problem
+ */
+export type ReadMode = "strict" | "lenient";
+
+/**
+ * Options which alter how a tag is read
+ */
+export interface IReadOptions {
+	/**
+	 * How to use an ID3v1 tag, defaults to fallback
+	 */
+	id3v1?: ID3v1ReadMode;
+
+	/**
+	 * Whether to throw an error if the tag has a CRC-32 in its extended header which doesn't match the frames,
+	 * defaults to false
+	 */
+	verifyCrc?: boolean;
+
+	/**
+	 * The separator which the values of a text frame are split at in ID3v2.3.0 and ID3v2.2.0 tags, an empty string
+	 * stops the values from being split, defaults to "/"
+	 */
+	separator?: string;
+
+	/**
+	 * Whether to throw an error for the first problem in the tag or to read what can still be read, defaults to lenient
+	 */
+	mode?: ReadMode;
+
+	/**
+	 * The position of the tag to read, as found by locate(), by default the first tag is read along with the tags
+	 * after it which are marked as updates
+	 */
+	tagPosition?: number;
+}
+
+/**
+ * The read options which are passed to the frame reader and decoder, with the mode resolved
+ */
+export interface IDecodingOptions extends IReadOptions {
+	/**
+	 * How problems in the tag are handled
+	 */
+	mode: ReadMode;
+
+	/**
+	 * The problems which were found in lenient mode
+	 */
+	warnings: ID3Error[];
+}
+
+/**
+ * Options which alter which tags are removed
+ */
+export interface IRemoveOptions {
+	/**
+	 * Whether to remove the ID3v2 tags, defaults to true
+	 */
+	id3v2?: boolean;
+
+	/**
+	 * Whether to remove the ID3v1 tag at the end of the file, defaults to false
+	 */
+	id3v1?: boolean;
+
+	/**
+	 * The position of the ID3v2 tag to remove, as found by locate(), by default all of the ID3v2 tags are removed
+	 */
+	tagPosition?: number;
+}
@@ -0,0 +1,144 @@
+import { IFrames, IUserDefinedTextFrame } from "./frameDefinitions";
+import { IReplayGainOptions, ReplayGainForm } from "./options";
+import ReplayGainVolumeAdjustment from "./replayGainVolumeAdjustment";
+import { toArray } from "./utils";
+
+/**
+ * The ReplayGain values of a file
+ */
+export interface IReplayGain {
+	/**
+	 * The gain of the track in decibels
+	 */
+	trackGain?: number;
+
+	/**
+	 * The peak of the track as a fraction of full scale
+	 */
+	trackPeak?: number;
+
+	/**
+	 * The gain of the album in decibels
+	 */
+	albumGain?: number;
+
+	/**
+	 * The peak of the album as a fraction of full scale
+	 */
+	albumPeak?: number;
+}
+
+/**
+ * The descriptions of the user defined text frames which each value is stored in
+ */
+const DESCRIPTIONS: {[key in keyof IReplayGain]-?: string} = {
+	trackGain: "REPLAYGAIN_TRACK_GAIN",
+	trackPeak: "REPLAYGAIN_TRACK_PEAK",
+	albumGain: "REPLAYGAIN_ALBUM_GAIN",
+	albumPeak: "REPLAYGAIN_ALBUM_PEAK"
+};
+
+/**
+ * Reads and writes ReplayGain values in the forms which they are stored in: the REPLAYGAIN_* user defined text frames,
+ * the RVA2 frames of ID3v2.4.0 and the RVAD frame of ID3v2.3.0
+ */
+export default class ReplayGain {
+	/**
+	 * Read the ReplayGain values from whichever forms are present in the frames
+	 * @param frames - The frames to read the values from
+	 * @returns The values, each is taken from the user defined text frames, RVA2 or RVAD, in that order of preference
+	 */
+	public static read(frames: IFrames): IReplayGain {
+		const forms = [
+			this.readUserDefinedText(frames.userDefinedText),
+			ReplayGainVolumeAdjustment.readRelativeVolumeAdjustment(frames.relativeVolumeAdjustment),
+			ReplayGainVolumeAdjustment.readVolumeAdjustment(frames.volumeAdjustment)
+		];
+
+		const replayGain: IReplayGain = {};
+
+		for(const key of Object.keys(DESCRIPTIONS) as Array<keyof IReplayGain>) {
+			const form = forms.find(values => values[key] !== undefined);
+
+			if(form !== undefined) {
+				replayGain[key] = form[key];
+			}
+		}
+
+		return replayGain;
+	}
+
+	/**
+	 * Write ReplayGain values to frames in the chosen forms
+	 * @param frames - The frames to write the values to, which should include the existing entries of those forms
+	 * @param replayGain - The values to write
+	 * @param options - The forms to write the values in
+	 * @returns The frames, in which the existing ReplayGain entries of the chosen forms are replaced
+	 */
+	public static write(frames: IFrames, replayGain: IReplayGain, options: IReplayGainOptions = {}): IFrames {
+		const forms: ReplayGainForm[] = options.forms === undefined ? [ "userDefinedText" ] : options.forms;
+		const updated = { ...frames };
+
+		if(forms.includes("userDefinedText")) {
+			updated.userDefinedText = this.createUserDefinedText(frames.userDefinedText, replayGain);
+		}
+
+		if(forms.includes("relativeVolumeAdjustment")) {
+			updated.relativeVolumeAdjustment = ReplayGainVolumeAdjustment.createRelativeVolumeAdjustment(
+				frames.relativeVolumeAdjustment,
+				replayGain
+			);
+		}
+
+		if(forms.includes("volumeAdjustment") && replayGain.trackGain !== undefined) {
+			updated.volumeAdjustment = ReplayGainVolumeAdjustment.createVolumeAdjustment(replayGain.trackGain, replayGain.trackPeak);
+		}
+
+		return updated;
+	}
+
+	/**
+	 * Read the values from the REPLAYGAIN_* user defined text frames, e.g. "-6.48 dB"
+	 * @param frames - The user defined text frames
+	 * @returns The values, the descriptions are matched case insensitively
+	 */
+	private static readUserDefinedText(frames: IFrames["userDefinedText"]){
+		const replayGain: IReplayGain = {};
+
+		for(const { description, value } of toArray(frames)) {
+			const key = (Object.keys(DESCRIPTIONS) as Array<keyof IReplayGain>)
+				.find(name => DESCRIPTIONS[name] === (description || "").toUpperCase());
+
+			if(key !== undefined && !isNaN(parseFloat(value))) {
+				replayGain[key] = parseFloat(value);
+			}
+		}
+
+		return replayGain;
+	}
+
+	/**
+	 * Replace the REPLAYGAIN_* user defined text frames
+	 * @param frames - The existing user defined text frames, which are kept if they are not ReplayGain values
+	 * @param replayGain - The values to write
+	 * @returns The user defined text frames
+	 */
+	private static createUserDefinedText(frames: IFrames["userDefinedText"], replayGain: IReplayGain){
+		const descriptions = Object.values(DESCRIPTIONS);
+		const userDefinedText: IUserDefinedTextFrame[] = toArray(frames)
+			.filter(({ description }) => !descriptions.includes((description || "").toUpperCase()));
+
+		for(const key of Object.keys(DESCRIPTIONS) as Array<keyof IReplayGain>) {
+			const value = replayGain[key];
+
+			if(value !== undefined) {
+				userDefinedText.push({
+					description: DESCRIPTIONS[key],
+					value: key === "trackGain" || key === "albumGain" ? `${value.toFixed(2)} dB` : value.toFixed(6)
+				});
+			}
+		}
+
+		return userDefinedText;
+	}
+}
@@ -0,0 +1,136 @@
+import {
+	IFrames,
+	IRelativeVolumeAdjustmentFrame,
+	IChannelVolumeAdjustment,
+	IVolumeAdjustmentFrame
+} from "./frameDefinitions";
+import { ChannelType } from "./channelType";
+import { IReplayGain } from "./replayGain";
+import { toArray } from "./utils";
+
+/**
+ * The identifications of the RVA2 frames which the track and album values are stored in
+ */
+const IDENTIFICATIONS = {
+	track: "track",
+	album: "album"
+};
+
+/**
+ * The number of bits which the values of an RVAD frame are written with
+ */
+const VOLUME_ADJUSTMENT_BITS = 16;
+
+/**
+ * Converts ReplayGain values to and from the RVA2 frames of ID3v2.4.0 and the RVAD frame of ID3v2.3.0
+ */
+export default class ReplayGainVolumeAdjustment {
+	/**
+	 * Read the values from the RVA2 frames which are identified as track and album
+	 * @param frames - The RVA2 frames
+	 * @returns The values of the master volume channel, or of the first channel if there is no master volume
+	 */
+	public static readRelativeVolumeAdjustment(frames: IFrames["relativeVolumeAdjustment"]){
+		const replayGain: IReplayGain = {};
+
+		for(const { identification, channels } of toArray(frames)) {
+			const channel = channels.find(({ channelType }) => channelType === ChannelType.MasterVolume) ||
+				(channels.length > 0 ? channels[0] : undefined);
+
+			if(channel === undefined) {
+				continue;
+			}
+
+			//The peak is optional, a missing one is left out rather than set to undefined
+			if(identification.toLowerCase() === IDENTIFICATIONS.track) {
+				replayGain.trackGain = channel.volumeAdjustment;
+
+				if(channel.peak !== undefined) {
+					replayGain.trackPeak = channel.peak;
+				}
+			} else if(identification.toLowerCase() === IDENTIFICATIONS.album) {
+				replayGain.albumGain = channel.volumeAdjustment;
+
+				if(channel.peak !== undefined) {
+					replayGain.albumPeak = channel.peak;
+				}
+			}
+		}
+
+		return replayGain;
+	}
+
+	/**
+	 * Read the track values from an RVAD frame, which has no album values
+	 * @param frame - The RVAD frame
+	 * @returns The values, the adjustment is a linear change relative to the largest value of its bits and the gain is
+	 * the average of the right and left channels
+	 */
+	public static readVolumeAdjustment(frame: IVolumeAdjustmentFrame | undefined): IReplayGain {
+		if(frame === undefined || frame.bits === 0) {
+			return {};
+		}
+
+		const factors = [ frame.right, frame.left ].map(({ adjustment }) => adjustment / Math.pow(2, frame.bits) + 1);
+
+		if(factors.some(factor => factor <= 0)) {
+			return {};
+		}
+
+		return {
+			trackGain: factors.reduce((sum, factor) => sum + Math.log10(factor) * 20, 0) / factors.length,
+			trackPeak: Math.max(frame.right.peak, frame.left.peak) / Math.pow(2, frame.bits - 1)
+		};
+	}
+
+	/**
+	 * Replace the RVA2 frames which are identified as track and album
+	 * @param frames - The existing RVA2 frames, which are kept if they have another identification
+	 * @param replayGain - The values to write
+	 * @returns The RVA2 frames, each value is written to the master volume channel
+	 */
+	public static createRelativeVolumeAdjustment(frames: IFrames["relativeVolumeAdjustment"], replayGain: IReplayGain){
+		const identifications = Object.values(IDENTIFICATIONS);
+		const relativeVolumeAdjustment: IRelativeVolumeAdjustmentFrame[] = toArray(frames)
+			.filter(({ identification }) => !identifications.includes(identification.toLowerCase()));
+
+		const values: Array<[string, number | undefined, number | undefined]> = [
+			[ IDENTIFICATIONS.track, replayGain.trackGain, replayGain.trackPeak ],
+			[ IDENTIFICATIONS.album, replayGain.albumGain, replayGain.albumPeak ]
+		];
+
+		for(const [ identification, volumeAdjustment, peak ] of values) {
+			if(volumeAdjustment !== undefined) {
+				const channel: IChannelVolumeAdjustment = { channelType: ChannelType.MasterVolume, volumeAdjustment };
+
+				if(peak !== undefined) {
+					channel.peak = peak;
+				}
+
+				relativeVolumeAdjustment.push({ identification, channels: [ channel ] });
+			}
+		}
+
+		return relativeVolumeAdjustment;
+	}
+
+	/**
+	 * Create an RVAD frame from the track values
+	 * @param gain - The gain of the track in decibels
+	 * @param peak - The peak of the track
+	 * @returns The RVAD frame, with the same values for the right and left channels
+	 */
+	public static createVolumeAdjustment(gain: number, peak = 0): IVolumeAdjustmentFrame {
+		const maximum = Math.pow(2, VOLUME_ADJUSTMENT_BITS) - 1;
+		const channel = {
+			adjustment: Math.min(Math.max(Math.round((Math.pow(10, gain / 20) - 1) * (maximum + 1)), -maximum), maximum),
+			peak: Math.min(Math.round(peak * Math.pow(2, VOLUME_ADJUSTMENT_BITS - 1)), maximum)
+		};
+
+		return {
+			bits: VOLUME_ADJUSTMENT_BITS,
+			right: channel,
+			left: { ...channel }
+		};
+	}
+}
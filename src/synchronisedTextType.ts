@@ -0,0 +1,49 @@
+/**
+ * The type of the text in a synchronised lyrics frame
+ */
+export enum SynchronisedTextType {
+	/**
+	 * Other
+	 */
+	Other = 0x00,
+
+	/**
+	 * Lyrics
+	 */
+	Lyrics = 0x01,
+
+	/**
+	 * Text transcription
+	 */
+	TextTranscription = 0x02,
+
+	/**
+	 * Movement or part name, e.g. "Adagio"
+	 */
+	PartName = 0x03,
+
+	/**
+	 * Events, e.g. "Don Quijote enters the stage"
+	 */
+	Events = 0x04,
+
+	/**
+	 * Chord, e.g. "Bb F Fsus"
+	 */
+	Chord = 0x05,
+
+	/**
+	 * Trivia or "pop up" information
+	 */
+	Trivia = 0x06,
+
+	/**
+	 * URLs to webpages
+	 */
+	WebpageUrls = 0x07,
+
+	/**
+	 * URLs to images
+	 */
+	ImageUrls = 0x08
+}
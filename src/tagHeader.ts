@@ -0,0 +1,102 @@
+import { decodeSyncsafeSize } from "./utils";
+
+/**
+ * The header or footer of an ID3v2 tag
+ */
+export interface ITagHeader {
+	/**
+	 * The minor version of the tag
+	 */
+	version: number;
+
+	/**
+	 * The tag header flags
+	 */
+	flags: number;
+
+	/**
+	 * The size of the tag excluding its header and footer
+	 */
+	bodySize: number;
+}
+
+/**
+ * The size of a tag header or footer
+ */
+export const TAG_HEADER_SIZE = 10;
+
+/**
+ * The tag header flag which signifies that the tag has a footer, only in ID3v2.4.0
+ */
+export const TAG_FOOTER_FLAG = 0x10;
+
+/**
+ * The tag header flag which signifies that the header is followed by an extended header
+ */
+export const TAG_EXTENDED_HEADER_FLAG = 0x40;
+
+/**
+ * Reads the headers and footers of ID3v2 tags, which have the same layout apart from their identifier
+ */
+export default class TagHeader {
+	/**
+	 * Find the first tag header at the start of the data
+	 * @param start - The start of the data
+	 * @returns The position of the header, or -1 if there isn't one
+	 */
+	public static find(start: Buffer){
+		for(let position = start.indexOf("ID3"); position !== -1; position = start.indexOf("ID3", position + 1)) {
+			if(this.read(start, position, "ID3", true) !== undefined) {
+				return position;
+			}
+		}
+
+		return -1;
+	}
+
+	/**
+	 * Read a tag header or footer, which is the identifier followed by a version and revision below 0xFF, the flags and
+	 * a syncsafe size
+	 * @param data - The data which contains the header
+	 * @param position - The position of the header
+	 * @param identifier - "ID3" for a header or "3DI" for a footer
+	 * @param allowInvalidSize - Whether to accept a size which isn't syncsafe, so that it can be reported
+	 * @returns The header, or undefined if there isn't a valid one at the position
+	 */
+	public static read(
+		data: Buffer,
+		position: number,
+		identifier: "ID3" | "3DI",
+		allowInvalidSize = false
+	): ITagHeader | undefined {
+		if(data.length < position + TAG_HEADER_SIZE || data.toString("latin1", position, position + 3) !== identifier) {
+			return undefined;
+		}
+
+		const sizeBytes = data.slice(position + 6, position + TAG_HEADER_SIZE);
+
+		const isSizeValid = allowInvalidSize || sizeBytes.every(byte => byte < 0x80);
+
+		if(data[position + 3] === 0xFF || data[position + 4] === 0xFF || !isSizeValid) {
+			return undefined;
+		}
+
+		return {
+			version: data[position + 3],
+			flags: data[position + 5],
+			bodySize: decodeSyncsafeSize(sizeBytes)
+		};
+	}
+
+	/**
+	 * Get the size of a tag
+	 * @param header - The header or footer of the tag
+	 * @returns The size of the tag including its header and footer
+	 */
+	public static getTagSize(header: ITagHeader){
+		// tslint:disable-next-line: no-bitwise
+		const hasFooter = header.version === 4 && (header.flags & TAG_FOOTER_FLAG) !== 0;
+
+		return TAG_HEADER_SIZE + header.bodySize + (hasFooter ? TAG_HEADER_SIZE : 0);
+	}
+}
@@ -0,0 +1,162 @@
+import FrameReader from "./frameReader";
+import ExtendedHeader from "./extendedHeader";
+import TagHeader, { ITagHeader, TAG_HEADER_SIZE, TAG_EXTENDED_HEADER_FLAG } from "./tagHeader";
+import { TAG_SIZE as ID3V1_TAG_SIZE } from "./id3v1";
+
+/**
+ * Where an ID3v2 tag was found
+ */
+export interface ITagLocation {
+	/**
+	 * The position of the tag header
+	 */
+	position: number;
+
+	/**
+	 * The size of the tag including its header and footer
+	 */
+	size: number;
+
+	/**
+	 * The minor version of the tag, e.g. 3 for ID3v2.3.0
+	 */
+	version: number;
+
+	/**
+	 * Whether the tag was found through its footer at the end of the data, rather than at the start or through a SEEK
+	 * frame
+	 */
+	isAppended: boolean;
+}
+
+/**
+ * A part of the data which the search needs, as its position and length
+ */
+export type ReadRequest = [number, number];
+
+/**
+ * The number of bytes at the start of the data which may contain the first tag header, as it can follow up to 20 other
+ * bytes
+ */
+export const TAG_HEADER_SEARCH_SIZE = 30;
+
+/**
+ * Finds the ID3v2 tags in data: the tag at the start, the tags which directly follow it or which SEEK frames point to,
+ * and ID3v2.4.0 tags which are appended to the end with a footer
+ */
+export default class TagLocator {
+	/**
+	 * Find the tags in a buffer
+	 * @param data - The buffer to search
+	 * @returns The locations of the tags, in the order of their positions
+	 */
+	public static locate(data: Buffer){
+		return this.locateWith(([ position, length ]) => data.slice(position, position + length), data.length);
+	}
+
+	/**
+	 * Find the tags in data which is read in parts, such as a file
+	 * @param read - The function which reads a part of the data
+	 * @param size - The size of the data
+	 * @returns The locations of the tags, in the order of their positions
+	 */
+	public static locateWith(read: (request: ReadRequest) => Buffer, size: number){
+		const search = this.search(size);
+		let step = search.next();
+
+		while(!step.done) {
+			step = search.next(read(step.value));
+		}
+
+		return step.value;
+	}
+
+	/**
+	 * Find the tags in data which is read in parts asynchronously, such as a file or a blob
+	 * @param read - The function which reads a part of the data
+	 * @param size - The size of the data
+	 * @returns A promise which resolves to the locations of the tags, in the order of their positions
+	 */
+	public static async locateWithAsync(read: (request: ReadRequest) => Promise<Buffer>, size: number){
+		const search = this.search(size);
+		let step = search.next();
+
+		while(!step.done) {
+			step = search.next(await read(step.value));
+		}
+
+		return step.value;
+	}
+
+	/**
+	 * Search for the tags, asking for each part of the data which is needed so that the search works whether the data
+	 * is read synchronously or not
+	 * @param size - The size of the data
+	 * @returns The locations of the tags, in the order of their positions
+	 */
+	private static *search(size: number): Generator<ReadRequest, ITagLocation[], Buffer> {
+		const locations: ITagLocation[] = [];
+
+		//The first tag can follow a few other bytes, and may have an invalid size which is reported when it is read
+		const start = yield [ 0, TAG_HEADER_SEARCH_SIZE ];
+		let position = TagHeader.find(start);
+		let header = position === -1 ? undefined : TagHeader.read(start, position, "ID3", true);
+
+		while(header !== undefined) {
+			const location = { position, size: TagHeader.getTagSize(header), version: header.version, isAppended: false };
+			locations.push(location);
+
+			//A SEEK frame gives the offset of the next tag from the end of the tag, otherwise it may directly follow
+			const seekOffset = header.version === 4 ? this.readSeekOffset(yield [ position, location.size ], header) : 0;
+			position = position + location.size + seekOffset;
+
+			header = position + TAG_HEADER_SIZE <= size ?
+				TagHeader.read(yield [ position, TAG_HEADER_SIZE ], 0, "ID3") :
+				undefined;
+		}
+
+		//Appended tags are before the ID3v1 tag, if there is one
+		const endSize = Math.min(ID3V1_TAG_SIZE + TAG_HEADER_SIZE, size);
+		const end = yield [ size - endSize, endSize ];
+		let tagEnd = end.toString("latin1", end.length - ID3V1_TAG_SIZE, end.length - ID3V1_TAG_SIZE + 3) === "TAG" ?
+			size - ID3V1_TAG_SIZE :
+			size;
+
+		while(tagEnd >= TAG_HEADER_SIZE * 2) {
+			const footer = TagHeader.read(yield [ tagEnd - TAG_HEADER_SIZE, TAG_HEADER_SIZE ], 0, "3DI");
+			const tagPosition = footer === undefined ? -1 : tagEnd - TagHeader.getTagSize(footer);
+
+			if(footer === undefined || tagPosition < 0 || locations.some(location => location.position === tagPosition)) {
+				break;
+			}
+
+			locations.push({ position: tagPosition, size: tagEnd - tagPosition, version: footer.version, isAppended: true });
+			tagEnd = tagPosition;
+		}
+
+		return locations.sort((a, b) => a.position - b.position);
+	}
+
+	/**
+	 * Read the offset in the SEEK frame of an ID3v2.4.0 tag
+	 * @param tag - The tag including its header
+	 * @param header - The tag header
+	 * @returns The offset of the next tag from the end of the tag, or 0 if there is no SEEK frame
+	 */
+	private static readSeekOffset(tag: Buffer, header: ITagHeader){
+		try {
+			const body = tag.slice(TAG_HEADER_SIZE, TAG_HEADER_SIZE + header.bodySize);
+			// tslint:disable-next-line: no-bitwise
+			const hasExtendedHeader = (header.flags & TAG_EXTENDED_HEADER_FLAG) !== 0;
+			const start = hasExtendedHeader ? ExtendedHeader.read(body, 4).size : 0;
+
+			const seekFrame = FrameReader.readFrames(body, 4, false, { mode: "lenient", warnings: [] }, start)
+				.find(({ frameName }) => frameName as string === "SEEK");
+
+			return seekFrame === undefined || seekFrame.body.length < 4 ? 0 : seekFrame.body.readUInt32BE(0);
+		} catch {
+			//A tag which can't be read is reported when it is read, rather than while searching for tags
+			return 0;
+		}
+	}
+}
@@ -0,0 +1,36 @@
+import { Buffer } from 'buffer';
+import TagStream from "./tagStream";
+import { IFrames } from "./frameDefinitions";
+
+/**
+ * A transform stream which reads the ID3v2 tag at the start of the audio passed through it and emits the frames in a
+ * "tag" event as soon as the tag has been received, passing all of the data through unchanged
+ */
+export default class TagReadStream extends TagStream {
+	/**
+	 * The function which reads the frames from the tag
+	 */
+	private readonly readTag: (tag: Buffer) => IFrames;
+
+	/**
+	 * Create a stream which reads a tag
+	 * @param readTag - The function which reads the frames from the tag
+	 */
+	public constructor(readTag: (tag: Buffer) => IFrames){
+		super();
+
+		this.readTag = readTag;
+	}
+
+	/**
+	 * Emit the frames of the tag and pass the data through
+	 * @param tag - The tag including its header, which is empty if there is no tag
+	 * @param audio - The audio which was received along with the end of the tag
+	 */
+	protected handleTag(tag: Buffer, audio: Buffer){
+		const frames = this.readTag(tag);
+
+		this.push(Buffer.concat([ tag, audio ]));
+		this.emit("tag", frames);
+	}
+}
@@ -0,0 +1,114 @@
+import { Buffer } from 'buffer';
+import { Transform, TransformCallback } from "stream";
+import { TAG_FOOTER_FLAG } from "./tagHeader";
+
+/**
+ * The size of the tag header, which contains the size of the rest of the tag
+ */
+const TAG_HEADER_SIZE = 10;
+
+/**
+ * A transform stream which separates the ID3v2 tag at the start of the data passed through it from the audio
+ */
+export default abstract class TagStream extends Transform {
+	/**
+	 * The data which has been received before the end of the tag
+	 */
+	private head: Buffer = Buffer.alloc(0);
+
+	/**
+	 * The size of the tag including its header, 0 if there is no tag, or undefined if the header hasn't been received
+	 */
+	private tagSize?: number;
+
+	/**
+	 * Whether the tag has been handled, after which all data is audio
+	 */
+	private isTagHandled = false;
+
+	/**
+	 * Receive a chunk of data, which is held back until the whole tag has been received
+	 * @param chunk - The chunk of data
+	 * @param _encoding - The encoding of the chunk, which is unused as the chunks are buffers
+	 * @param callback - The function to call once the chunk is handled
+	 */
+	// tslint:disable-next-line: variable-name
+	public _transform(chunk: Buffer, _encoding: string, callback: TransformCallback){
+		if(this.isTagHandled) {
+			this.push(chunk);
+			callback();
+
+			return;
+		}
+
+		this.head = Buffer.concat([ this.head, chunk ]);
+
+		if(this.tagSize === undefined && this.head.length >= TAG_HEADER_SIZE) {
+			this.tagSize = this.head.toString("latin1", 0, 3) === "ID3" ? this.getTagSize(this.head) : 0;
+		}
+
+		if(this.tagSize === undefined || this.head.length < this.tagSize) {
+			callback();
+
+			return;
+		}
+
+		this.finishTag(this.tagSize, callback);
+	}
+
+	/**
+	 * Handle the data which has been held back if the stream ends before the end of the tag
+	 * @param callback - The function to call once the data is handled
+	 */
+	public _flush(callback: TransformCallback){
+		if(this.isTagHandled) {
+			callback();
+
+			return;
+		}
+
+		//A tag which is cut off is handled as it is
+		this.finishTag(this.tagSize === undefined ? 0 : this.head.length, callback);
+	}
+
+	/**
+	 * Handle the tag once it has been received
+	 * @param tag - The tag including its header, which is empty if there is no tag
+	 * @param audio - The audio which was received along with the end of the tag
+	 */
+	protected abstract handleTag(tag: Buffer, audio: Buffer): void;
+
+	/**
+	 * Pass the received tag to handleTag, after which all data is passed through
+	 * @param tagSize - The size of the received tag
+	 * @param callback - The function to call once the tag is handled
+	 */
+	private finishTag(tagSize: number, callback: TransformCallback){
+		this.isTagHandled = true;
+
+		try {
+			this.handleTag(this.head.slice(0, tagSize), this.head.slice(tagSize));
+		} catch(error) {
+			callback(error);
+
+			return;
+		}
+
+		this.head = Buffer.alloc(0);
+		callback();
+	}
+
+	/**
+	 * Get the size of a tag from the syncsafe size in its header
+	 * @param header - The tag header
+	 * @returns The size of the tag including its header, and its footer if it is an ID3v2.4.0 tag which has one
+	 */
+	private getTagSize(header: Buffer){
+		// tslint:disable: no-bitwise
+		const bodySize = (header[6] << 21) + (header[7] << 14) + (header[8] << 7) + header[9];
+		const hasFooter = header[3] === 4 && (header[5] & TAG_FOOTER_FLAG) !== 0;
+		// tslint:enable: no-bitwise
+
+		return TAG_HEADER_SIZE + bodySize + (hasFooter ? TAG_HEADER_SIZE : 0);
+	}
+}
@@ -0,0 +1,33 @@
+import TagStream from "./tagStream";
+
+/**
+ * A transform stream which replaces the ID3v2 tag at the start of the audio passed through it, or adds one if there
+ * is none
+ */
+export default class TagWriteStream extends TagStream {
+	/**
+	 * The tag to write in place of the existing one
+	 */
+	private readonly tag: Buffer;
+
+	/**
+	 * Create a stream which writes a tag
+	 * @param tag - The tag to write, as created by create()
+	 */
+	public constructor(tag: Buffer){
+		super();
+
+		this.tag = tag;
+	}
+
+	/**
+	 * Drop the existing tag and write the new one before the audio
+	 * @param _tag - The existing tag, which is dropped
+	 * @param audio - The audio which was received along with the end of the existing tag
+	 */
+	// tslint:disable-next-line: variable-name
+	protected handleTag(_tag: Buffer, audio: Buffer){
+		this.push(this.tag);
+		this.push(audio);
+	}
+}
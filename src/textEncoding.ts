@@ -0,0 +1,90 @@
+import { Buffer } from 'buffer';
+import iconv from "iconv-lite";
+import { IEncodingOptions, TextEncodingName } from "./options";
+
+/**
+ * The encoding bytes which precede encoded text, by the name of the encoding
+ */
+const ENCODING_BYTES: {[name in TextEncodingName]: number} = {
+	"ISO-8859-1": 0x00,
+	"UTF-16": 0x01,
+	"UTF-16BE": 0x02,
+	"UTF-8": 0x03
+};
+
+/**
+ * The names which iconv knows each encoding by, by the encoding byte
+ */
+const ICONV_ENCODINGS = [ "ISO-8859-1", "utf16", "utf16-be", "utf8" ];
+
+/**
+ * Encodes and decodes text in the encodings which ID3v2 frames are marked with
+ */
+export default class TextEncoding {
+	/**
+	 * Choose the encoding to write text in
+	 * @param texts - The strings which are written in the encoding
+	 * @param options - The options which contain the chosen encoding and the version
+	 * @returns The encoding byte
+	 */
+	public static choose(texts: string[], options: IEncodingOptions){
+		const name = options.encoding === undefined ? "UTF-16" : options.encoding;
+
+		if(name === "auto") {
+			//ISO-8859-1 takes a single byte for each character, but can only write the first 256 code points
+			return texts.every(text => /^[\u0000-\u00FF]*$/.test(text)) ?
+				ENCODING_BYTES["ISO-8859-1"] :
+				ENCODING_BYTES[options.version === 4 ? "UTF-8" : "UTF-16"];
+		}
+
+		return options.version === 4 || name === "ISO-8859-1" ? ENCODING_BYTES[name] : ENCODING_BYTES["UTF-16"];
+	}
+
+	/**
+	 * Encode text
+	 * @param text - The text to encode
+	 * @param encoding - The encoding byte
+	 * @returns The encoded text, UTF-16 starts with a BOM
+	 */
+	public static encode(text: string, encoding: number): Buffer {
+		return iconv.encode(text, this.getIconvEncoding(encoding));
+	}
+
+	/**
+	 * Encode text which is followed by a null character
+	 * @param text - The text to encode
+	 * @param encoding - The encoding byte
+	 * @returns The encoded text and its terminator, which is two zero bytes for UTF-16 and UTF-16BE
+	 */
+	public static encodeTerminated(text: string, encoding: number): Buffer {
+		return Buffer.concat([ this.encode(text, encoding), Buffer.alloc(this.getTerminatorSize(encoding), 0) ]);
+	}
+
+	/**
+	 * Decode text
+	 * @param data - The encoded text
+	 * @param encoding - The encoding byte, unknown encodings are decoded as ISO-8859-1
+	 * @returns The text, UTF-16 without a BOM is decoded as little endian
+	 */
+	public static decode(data: Buffer, encoding: number){
+		return iconv.decode(data, this.getIconvEncoding(encoding));
+	}
+
+	/**
+	 * Get the size of the null character which terminates a string
+	 * @param encoding - The encoding byte
+	 * @returns 2 for UTF-16 and UTF-16BE, otherwise 1
+	 */
+	public static getTerminatorSize(encoding: number){
+		return encoding === ENCODING_BYTES["UTF-16"] || encoding === ENCODING_BYTES["UTF-16BE"] ? 2 : 1;
+	}
+
+	/**
+	 * Get the name which iconv knows an encoding by
+	 * @param encoding - The encoding byte
+	 * @returns The name, or ISO-8859-1 if the encoding is unknown
+	 */
+	private static getIconvEncoding(encoding: number){
+		return encoding < ICONV_ENCODINGS.length ? ICONV_ENCODINGS[encoding] : ICONV_ENCODINGS[0];
+	}
+}
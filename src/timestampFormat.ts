@@ -0,0 +1,14 @@
+/**
+ * The unit of the timestamps in a synchronised lyrics frame
+ */
+export enum TimestampFormat {
+	/**
+	 * The number of MPEG frames since the start of the audio
+	 */
+	MpegFrames = 0x01,
+
+	/**
+	 * The number of milliseconds since the start of the audio
+	 */
+	Milliseconds = 0x02
+}
@@ -0,0 +1,23 @@
+import ID3Error from "./id3Error";
+
+/**
+ * The tag is of an ID3v2 version which can't be read
+ */
+export default class UnsupportedVersionError extends ID3Error {
+	/**
+	 * The minor version of the tag, e.g. 5 for ID3v2.5.0
+	 */
+	public readonly version: number;
+
+	/**
+	 * Create an error
+	 * @param version - The minor version of the tag
+	 * @param offset - The position of the tag header, or undefined if the version was passed as an option
+	 */
+	public constructor(version: number, offset?: number){
+		super(`ID3v2.${version}.0 is not supported`, offset);
+
+		this.name = "UnsupportedVersionError";
+		this.version = version;
+	}
+}
@@ -0,0 +1,71 @@
+import { Buffer } from 'buffer';
+import { encodeSyncsafeSize } from "./utils";
+
+/**
+ * The ID3v2.4.0 frame format flag which signifies that the frame is unsynchronised
+ */
+export const FRAME_UNSYNCHRONISATION_FLAG = 0x0002;
+
+/**
+ * Handles the unsynchronisation scheme, which inserts a zero byte after every 0xFF byte which could be mistaken for
+ * the start of an MPEG frame (0xFF followed by a byte of 0xE0 or higher) or for an inserted zero byte
+ */
+export default class Unsynchronisation {
+	/**
+	 * Unsynchronise data
+	 * @param data - The data to unsynchronise
+	 * @returns The unsynchronised data
+	 */
+	public static apply(data: Buffer): Buffer {
+		//At most every byte is followed by an inserted zero byte
+		const unsynchronised = Buffer.alloc(data.length * 2);
+		let length = 0;
+
+		for(let i = 0; i < data.length; i++) {
+			unsynchronised[length++] = data[i];
+
+			//A trailing 0xFF byte is followed by a zero byte too, as the following byte is unknown
+			if(data[i] === 0xFF && (i === data.length - 1 || data[i + 1] >= 0xE0 || data[i + 1] === 0x00)) {
+				unsynchronised[length++] = 0x00;
+			}
+		}
+
+		return unsynchronised.slice(0, length);
+	}
+
+	/**
+	 * Reverse the unsynchronisation of data by removing the zero byte after every 0xFF byte
+	 * @param data - The unsynchronised data
+	 * @returns The original data
+	 */
+	public static remove(data: Buffer): Buffer {
+		const original = Buffer.alloc(data.length);
+		let length = 0;
+
+		for(let i = 0; i < data.length; i++) {
+			original[length++] = data[i];
+
+			if(data[i] === 0xFF && data[i + 1] === 0x00) {
+				i++;
+			}
+		}
+
+		return original.slice(0, length);
+	}
+
+	/**
+	 * Unsynchronise the body of an encoded ID3v2.4.0 frame, updating the size and flags in the frame header
+	 * @param frame - The frame, including its header
+	 * @returns The unsynchronised frame
+	 */
+	public static applyToFrame(frame: Buffer): Buffer {
+		const header = Buffer.from(frame.slice(0, 10));
+		const body = this.apply(frame.slice(10));
+
+		header.set(encodeSyncsafeSize(body.length), 4);
+		// tslint:disable-next-line: no-bitwise
+		header.writeUInt16BE(header.readUInt16BE(8) | FRAME_UNSYNCHRONISATION_FLAG, 8);
+
+		return Buffer.concat([ header, body ]);
+	}
+}
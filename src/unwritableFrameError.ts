@@ -0,0 +1,18 @@
+import ID3Error from "./id3Error";
+
+/**
+ * A frame which was read can't be written back, e.g. an unknown ID3v2.2.0 frame whose three character ID doesn't exist
+ * in newer versions
+ */
+export default class UnwritableFrameError extends ID3Error {
+	/**
+	 * Create an error
+	 * @param message - The description of the problem
+	 * @param frameId - The ID of the frame
+	 */
+	public constructor(message: string, frameId: string){
+		super(message, undefined, frameId);
+
+		this.name = "UnwritableFrameError";
+	}
+}
@@ -4,12 +4,118 @@
  * @returns The flipped object
  */
 
-import { Buffer } from 'buffer';
-
 export const flipObject = <keyType extends string, valueType extends string>(obj: {[key in keyType]: valueType}) => {
 	return Object.fromEntries(Object.entries(obj).map(([ key, value ]) => [ value, key ])) as {[key in valueType]: keyType};
 };
 
-export const printBuffer = (buffer: Buffer) => {
-	console.log(buffer.toString("hex").match(/../g)?.join(" "));
+/**
+ * Convert a frame which can have more than one entry to an array
+ * @param value - The frame value
+ * @returns The entries of the frame
+ */
+export const toArray = <T>(value: T[] | T | undefined) => {
+	return value === undefined ? [] : value instanceof Array ? value : [ value ];
+};
+
+/**
+ * Encode a size as a four byte syncsafe integer, where the most significant bit of each byte is zeroed
+ * @param size - The size to encode
+ * @returns The bytes of the encoded size
+ */
+export const encodeSyncsafeSize = (size: number) => {
+	// tslint:disable: no-bitwise
+	return [
+		(size >> 21) & 0x7F,
+		(size >> 14) & 0x7F,
+		(size >> 7) & 0x7F,
+		size & 0x7F
+	];
+	// tslint:enable: no-bitwise
+};
+
+/**
+ * Decode a four byte syncsafe integer, where the most significant bit of each byte is zeroed
+ * @param bytes - The bytes of the encoded size
+ * @returns The decoded size
+ */
+export const decodeSyncsafeSize = (bytes: Uint8Array) => {
+	// tslint:disable-next-line: no-bitwise
+	return (bytes[0] << 21) + (bytes[1] << 14) + (bytes[2] << 7) + bytes[3];
+};
+
+/**
+ * Decode a big-endian counter of any length, as used by the play counter and popularimeter frames
+ * @param bytes - The bytes of the counter
+ * @returns The counter, as a bigint if it is larger than Number.MAX_SAFE_INTEGER
+ */
+export const decodeCounter = (bytes: Uint8Array) => {
+	// tslint:disable-next-line: no-bitwise
+	const counter = bytes.reduce((value, byte) => (value << BigInt(8)) + BigInt(byte), BigInt(0));
+
+	return counter > BigInt(Number.MAX_SAFE_INTEGER) ? counter : Number(counter);
+};
+
+/**
+ * Encode a counter as a big-endian integer of at least four bytes, more bytes are added when it doesn't fit in four
+ * @param counter - The counter to encode
+ * @returns The bytes of the encoded counter
+ */
+export const encodeCounter = (counter: number | bigint) => {
+	const bytes: number[] = [];
+
+	// tslint:disable: no-bitwise
+	for(let remaining = BigInt(counter); remaining > 0 || bytes.length < 4; remaining >>= BigInt(8)) {
+		bytes.unshift(Number(remaining & BigInt(0xFF)));
+	}
+	// tslint:enable: no-bitwise
+
+	return bytes;
+};
+
+/**
+ * The lookup table for the CRC-32 calculation, using the reversed polynomial 0xEDB88320
+ */
+const crc32Table = Array.from({ length: 256 }, (_, index) => {
+	let crc = index;
+
+	for(let bit = 0; bit < 8; bit++) {
+		// tslint:disable-next-line: no-bitwise
+		crc = crc & 1 ? (crc >>> 1) ^ 0xEDB88320 : crc >>> 1;
+	}
+
+	return crc;
+});
+
+/**
+ * Calculate the CRC-32 checksum (ISO 3309) of data
+ * @param data - The data to calculate the checksum of
+ * @returns The unsigned checksum
+ */
+export const calculateCrc32 = (data: Uint8Array) => {
+	let crc = 0xFFFFFFFF;
+
+	for(const byte of data) {
+		// tslint:disable-next-line: no-bitwise
+		crc = crc32Table[(crc ^ byte) & 0xFF] ^ (crc >>> 8);
+	}
+
+	// tslint:disable-next-line: no-bitwise
+	return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+/**
+ * Check that an extended header fits in the tag body
+ * @param tagBody - The tag after its header
+ * @param size - The size of the extended header
+ * @param minimumSize - The size of the smallest extended header with the fields which are present
+ * @throws Error if the extended header is too small or doesn't fit in the tag body
+ */
+export const checkExtendedHeaderSize = (tagBody: Uint8Array, size: number, minimumSize: number) => {
+	if(size < minimumSize) {
+		throw new Error(`The extended header size of ${size} bytes is too small`);
+	}
+
+	if(size > tagBody.length) {
+		throw new Error(`The extended header is ${size} bytes but only ${tagBody.length} are left`);
+	}
 };
@@ -0,0 +1,131 @@
+import { ChannelMode } from "./channelMode";
+import { IFrameHeader } from "./mpegFrameHeader";
+
+/**
+ * The information in a Xing, Info or VBRI header
+ */
+export interface IVbrHeader {
+	/**
+	 * Whether the header marks the bitrate as variable, an Info header is written for a constant bitrate
+	 */
+	isVariableBitrate: boolean;
+
+	/**
+	 * The number of audio frames
+	 */
+	frameCount?: number;
+
+	/**
+	 * The number of bytes of audio
+	 */
+	byteCount?: number;
+
+	/**
+	 * The number of silent samples at the start
+	 */
+	encoderDelay?: number;
+
+	/**
+	 * The number of silent samples at the end
+	 */
+	encoderPadding?: number;
+}
+
+/**
+ * The Xing header flags which signify that each field is present
+ */
+const XING_FLAGS = {
+	frameCount: 0x01,
+	byteCount: 0x02,
+	tableOfContents: 0x04,
+	quality: 0x08
+};
+
+/**
+ * The encoders which write a LAME header after the Xing or Info header
+ */
+const LAME_ENCODERS = [ "LAME", "Lavf", "Lavc" ];
+
+/**
+ * Reads the Xing, Info and VBRI headers which encoders write in the first MPEG audio frame, and the LAME header which
+ * may follow a Xing or Info header
+ */
+export default class VbrHeader {
+	/**
+	 * Read the header in the first frame
+	 * @param data - The start of the audio
+	 * @param position - The position of the first frame
+	 * @param header - The header of the first frame
+	 * @returns The information in the header, or undefined if the frame has none
+	 */
+	public static read(data: Buffer, position: number, header: IFrameHeader): IVbrHeader | undefined {
+		return this.readXingHeader(data, position, header) || this.readVbriHeader(data, position);
+	}
+
+	/**
+	 * Read the Xing or Info header in the first frame, and the LAME header which may follow it
+	 * @param data - The start of the audio
+	 * @param position - The position of the first frame
+	 * @param header - The header of the first frame
+	 * @returns The information in the headers, or undefined if there is no Xing or Info header
+	 */
+	private static readXingHeader(data: Buffer, position: number, header: IFrameHeader): IVbrHeader | undefined {
+		//The header follows the side information, whose size depends on the version and the number of channels
+		const isMono = header.channelMode === ChannelMode.Mono;
+		const sideInfoSize = header.version === 1 ? (isMono ? 17 : 32) : (isMono ? 9 : 17);
+		const start = position + 4 + sideInfoSize;
+		const identifier = data.toString("latin1", start, start + 4);
+
+		if((identifier !== "Xing" && identifier !== "Info") || start + 8 > data.length) {
+			return undefined;
+		}
+
+		const flags = data.readUInt32BE(start + 4);
+		const vbrHeader: IVbrHeader = { isVariableBitrate: identifier === "Xing" };
+		let offset = start + 8;
+
+		// tslint:disable: no-bitwise
+		if(flags & XING_FLAGS.frameCount) {
+			vbrHeader.frameCount = offset + 4 <= data.length ? data.readUInt32BE(offset) : undefined;
+			offset += 4;
+		}
+
+		if(flags & XING_FLAGS.byteCount) {
+			vbrHeader.byteCount = offset + 4 <= data.length ? data.readUInt32BE(offset) : undefined;
+			offset += 4;
+		}
+
+		offset += (flags & XING_FLAGS.tableOfContents ? 100 : 0) + (flags & XING_FLAGS.quality ? 4 : 0);
+
+		//The LAME header starts with the name of the encoder and has the delay and padding as two 12 bit numbers
+		if(offset + 24 <= data.length && LAME_ENCODERS.includes(data.toString("latin1", offset, offset + 4))) {
+			vbrHeader.encoderDelay = (data[offset + 21] << 4) | (data[offset + 22] >> 4);
+			vbrHeader.encoderPadding = ((data[offset + 22] & 0x0F) << 8) | data[offset + 23];
+		}
+		// tslint:enable: no-bitwise
+
+		return vbrHeader;
+	}
+
+	/**
+	 * Read the VBRI header in the first frame, which is written by the Fraunhofer encoder
+	 * @param data - The start of the audio
+	 * @param position - The position of the first frame
+	 * @returns The information in the header, or undefined if there is no VBRI header
+	 */
+	private static readVbriHeader(data: Buffer, position: number): IVbrHeader | undefined {
+		//The header is always 32 bytes after the frame header
+		const start = position + 36;
+
+		if(start + 18 > data.length || data.toString("latin1", start, start + 4) !== "VBRI") {
+			return undefined;
+		}
+
+		return {
+			isVariableBitrate: true,
+			encoderDelay: data.readUInt16BE(start + 6),
+			byteCount: data.readUInt32BE(start + 10),
+			frameCount: data.readUInt32BE(start + 14)
+		};
+	}
+}
@@ -0,0 +1,91 @@
+import { IFrames } from "./frameDefinitions";
+import { WritableVersion } from "./options";
+
+/**
+ * Fills in the equivalents of the date and involved people frames which changed between ID3 v2.3.0 and v2.4.0
+ */
+export default class VersionConverter {
+	/**
+	 * Add the equivalent frames of the passed version for any date and involved people frames which the version does not
+	 * support
+	 * @param frames - The frames to convert
+	 * @param version - The version that the frames will be written as
+	 * @returns The frames with the equivalents filled in, frames which are already defined are never overwritten
+	 */
+	public static convert(frames: IFrames, version: WritableVersion): IFrames {
+		return version === 4 ? this.toV240(frames) : this.toV230(frames);
+	}
+
+	/**
+	 * Convert the v2.3.0 TYER, TDAT, TIME and TORY frames into v2.4.0 timestamps, and the IPLS frame into TIPL
+	 * @param frames - The frames to convert
+	 * @returns The converted frames
+	 */
+	private static toV240(frames: IFrames): IFrames {
+		const converted = { ...frames };
+
+		if(converted.recordingTime === undefined && frames.year !== undefined) {
+			//TDAT is in the format DDMM and TIME is in the format HHMM
+			const date = frames.date !== undefined && frames.date.length === 4 ?
+				`-${frames.date.substring(2, 4)}-${frames.date.substring(0, 2)}` :
+				"";
+
+			const time = date !== "" && frames.time !== undefined && frames.time.length === 4 ?
+				`T${frames.time.substring(0, 2)}:${frames.time.substring(2, 4)}` :
+				"";
+
+			converted.recordingTime = frames.year + date + time;
+		}
+
+		if(converted.originalReleaseTime === undefined && frames.originalYear !== undefined) {
+			converted.originalReleaseTime = frames.originalYear;
+		}
+
+		//The musicians can't be told apart from the other people, so they are all involved people
+		if(converted.involvedPeople === undefined && frames.involvedPeopleList !== undefined) {
+			converted.involvedPeople = frames.involvedPeopleList;
+		}
+
+		return converted;
+	}
+
+	/**
+	 * Split the v2.4.0 TDRC and TDOR timestamps (yyyy-MM-ddTHH:mm:ss) into v2.3.0 frames, and merge the TIPL and TMCL
+	 * frames into IPLS
+	 * @param frames - The frames to convert
+	 * @returns The converted frames
+	 */
+	private static toV230(frames: IFrames): IFrames {
+		const converted = { ...frames };
+		const timestamp = frames.recordingTime;
+
+		if(timestamp !== undefined) {
+			if(converted.year === undefined && timestamp.length >= 4) {
+				converted.year = timestamp.substring(0, 4);
+			}
+
+			if(converted.date === undefined && timestamp.length >= 10) {
+				converted.date = timestamp.substring(8, 10) + timestamp.substring(5, 7);
+			}
+
+			if(converted.time === undefined && timestamp.length >= 16) {
+				converted.time = timestamp.substring(11, 13) + timestamp.substring(14, 16);
+			}
+		}
+
+		if(converted.originalYear === undefined && frames.originalReleaseTime !== undefined) {
+			converted.originalYear = frames.originalReleaseTime.substring(0, 4);
+		}
+
+		if(converted.involvedPeopleList === undefined) {
+			const pairs = [ frames.involvedPeople, frames.musicianCredits ]
+				.reduce<string[]>((merged, values) => values === undefined ? merged : merged.concat(values), []);
+
+			if(pairs.length > 0) {
+				converted.involvedPeopleList = pairs;
+			}
+		}
+
+		return converted;
+	}
+}
@@ -0,0 +1,67 @@
+const { test } = require("node:test");
+const assert = require("assert");
+const Module = require("module");
+const path = require("path");
+const { browser } = require("../package.json");
+
+/**
+ * Load the library the way a bundler which follows the browser field of the package would
+ * @returns The exports of the library
+ */
+const requireForBrowser = () => {
+	const root = path.join(__dirname, "..");
+	const stubbed = Object.keys(browser).filter(name => browser[name] === false).map(name => name.startsWith("./")
+		? path.join(root, name.replace(/^\.\/src\//, "dist/").replace(/\.ts$/, ".js"))
+		: name);
+	const load = Module._load;
+
+	Object.keys(require.cache).filter(file => file.startsWith(path.join(root, "dist"))).forEach(file => delete require.cache[file]);
+	Module._load = function(request, parent, isMain) {
+		const resolved = request.startsWith(".") ? Module._resolveFilename(request, parent, isMain) : request;
+
+		return stubbed.includes(resolved) ? {} : load.apply(this, arguments);
+	};
+
+	try {
+		return require("../dist/index.js");
+	} finally {
+		Module._load = load;
+		Object.keys(require.cache).filter(file => file.startsWith(path.join(root, "dist"))).forEach(file => delete require.cache[file]);
+	}
+};
+
+/**
+ * Run a function without the global Buffer, which browsers don't have
+ * @param callback - The function to run
+ * @returns The result of the function
+ */
+const withoutGlobalBuffer = async callback => {
+	const descriptor = Object.getOwnPropertyDescriptor(globalThis, "Buffer");
+	delete globalThis.Buffer;
+
+	try {
+		return await callback();
+	} finally {
+		Object.defineProperty(globalThis, "Buffer", descriptor);
+	}
+};
+
+test("the library can be loaded and used without the Node modules", async () => {
+	const NodeID3 = requireForBrowser().default;
+	const frames = {
+		title: "Title",
+		artist: [ "Artist A", "Artist B" ],
+		comment: [ { language: "eng", shortText: "", text: "Comment" } ],
+		image: [ { mime: "image/png", type: 3, description: "Cover", data: Buffer.from([ 0x89, 0x50, 0x4E, 0x47 ]) } ]
+	};
+
+	await withoutGlobalBuffer(async () => {
+		const tag = NodeID3.create(frames, { version: 4 });
+		const data = new Uint8Array(tag.length + 100);
+		data.set(tag);
+
+		assert.deepStrictEqual(NodeID3.read(data), frames);
+		assert.deepStrictEqual(await NodeID3.readBlob(new Blob([ data ])), frames);
+		assert.ok(NodeID3.remove(data) instanceof Uint8Array);
+	});
+});
@@ -0,0 +1,36 @@
+const { test } = require("node:test");
+const assert = require("assert");
+const ID3 = require("../dist/index.js");
+
+const NodeID3 = ID3.default;
+
+const frames = {
+	chapter: [
+		{
+			elementId: "chapter1",
+			startTime: 0,
+			endTime: 60000,
+			frames: {
+				title: "Introduction",
+				userDefinedUrl: [ { description: "", url: "https://example.com/intro" } ],
+				image: [ { mime: "image/png", type: ID3.PictureType.Other, description: "", data: Buffer.from([ 1, 2 ]) } ]
+			}
+		},
+		{ elementId: "chapter2", startTime: 60000, endTime: 120000, startOffset: 4000, endOffset: 8000 }
+	],
+	tableOfContents: [
+		{ elementId: "toc", isTopLevel: true, isOrdered: true, childElementIds: [ "chapter1", "chapter2" ], frames: { title: "Chapters" } }
+	]
+};
+
+test("chapters and tables of contents are written and read back with their frames", () => {
+	for(const version of [ 3, 4 ]) {
+		assert.deepStrictEqual(NodeID3.read(NodeID3.create(frames, { version })), frames);
+	}
+});
+
+test("chapters are kept when the tag is updated", () => {
+	const tag = NodeID3.update({ title: "Episode" }, NodeID3.create(frames, { version: 4 }), { version: 4 });
+
+	assert.deepStrictEqual(NodeID3.read(tag), { ...frames, title: "Episode" });
+});
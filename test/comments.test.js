@@ -0,0 +1,33 @@
+const { test } = require("node:test");
+const assert = require("assert");
+const ID3 = require("../dist/index.js");
+
+const NodeID3 = ID3.default;
+const audio = Buffer.alloc(1000, 0x55);
+
+const comments = [
+	{ language: "eng", shortText: "", text: "Comment" },
+	{ language: "eng", shortText: "iTunNORM", text: " 0000044E 00000000" },
+	{ language: "deu", shortText: "", text: "Kommentar" }
+];
+
+test("comments and lyrics with different languages and descriptors round-trip", () => {
+	const tags = {
+		comment: comments,
+		unsynchronisedLyrics: [ { language: "eng", shortText: "", text: "Lyrics" }, { language: "fra", shortText: "", text: "Paroles" } ]
+	};
+
+	assert.deepStrictEqual(NodeID3.read(NodeID3.create(tags)), tags);
+});
+
+test("updating a comment only replaces the comment with the same language and descriptor", () => {
+	const updated = NodeID3.update({ comment: { language: "eng", shortText: "", text: "New comment" } }, NodeID3.create({ comment: comments }));
+
+	assert.deepStrictEqual(NodeID3.read(updated).comment, [ ...comments.slice(1), { language: "eng", shortText: "", text: "New comment" } ]);
+});
+
+test("the comment of an ID3v1 tag is read in the same shape as those of an ID3v2 tag", () => {
+	const data = NodeID3.write(audio, { title: "Title", comment: comments[0] }, { id3v1: true });
+
+	assert.deepStrictEqual(NodeID3.read(NodeID3.remove(data)), { title: "Title", comment: [ comments[0] ] });
+});
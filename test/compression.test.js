@@ -0,0 +1,18 @@
+const { test } = require("node:test");
+const assert = require("assert");
+const ID3 = require("../dist/index.js");
+
+const NodeID3 = ID3.default;
+
+test("compressed frames are deflated when writing and inflated when reading", () => {
+	const frames = { private: [ { owner: "owner", data: Buffer.alloc(2000, 7) } ], title: "Title" };
+
+	for(const [ version, flags ] of [ [ 3, 0x80 ], [ 4, 0x09 ] ]) {
+		const tag = NodeID3.create(frames, { version, compressedFrames: [ "private" ] });
+
+		assert.ok(tag.length < NodeID3.create(frames, { version }).length - 1900);
+		assert.deepStrictEqual(tag.subarray(10, 14), Buffer.from("PRIV", "latin1"));
+		assert.strictEqual(tag[19], flags);
+		assert.deepStrictEqual(NodeID3.read(tag), frames);
+	}
+});
@@ -0,0 +1,32 @@
+const { test } = require("node:test");
+const assert = require("assert");
+const ID3 = require("../dist/index.js");
+
+const NodeID3 = ID3.default;
+
+test("the CRC-32 and padding size of an ID3v2.3.0 extended header are written", () => {
+	const tag = NodeID3.create({ title: "Title" }, { version: 3, padding: 20, extendedHeader: { crc: true } });
+	const { crc, ...extendedHeader } = NodeID3.readExtendedHeader(tag);
+
+	assert.deepStrictEqual(extendedHeader, { size: 14, isUpdate: false, paddingSize: 20, crcValid: true });
+	assert.deepStrictEqual(NodeID3.readWithWarnings(tag), { frames: { title: "Title" }, warnings: [] });
+});
+
+test("the update flag and restrictions of an ID3v2.4.0 extended header are written", () => {
+	const restrictions = { tagSize: 1, textEncoding: true, textFieldSize: 2, imageEncoding: true, imageSize: 3 };
+	const tag = NodeID3.create({ title: "Title" }, { version: 4, extendedHeader: { crc: true, isUpdate: true, restrictions } });
+	const { crc, ...extendedHeader } = NodeID3.readExtendedHeader(tag);
+
+	assert.deepStrictEqual(extendedHeader, { size: 15, isUpdate: true, crcValid: true, restrictions });
+	assert.deepStrictEqual(NodeID3.read(tag), { title: "Title" });
+});
+
+test("a CRC-32 which doesn't match the frames is reported", () => {
+	const tag = NodeID3.create({ title: "Title" }, { version: 4, extendedHeader: { crc: true } });
+
+	tag[tag.length - 1] ^= 1;
+
+	assert.strictEqual(NodeID3.readExtendedHeader(tag).crcValid, false);
+	assert.deepStrictEqual(NodeID3.readWithWarnings(tag).warnings.map(({ name }) => name), [ "CrcMismatchError" ]);
+	assert.throws(() => NodeID3.read(tag, { verifyCrc: true }), ID3.CrcMismatchError);
+});
@@ -0,0 +1,34 @@
+const { test } = require("node:test");
+const assert = require("assert");
+const ID3 = require("../dist/index.js");
+
+const NodeID3 = ID3.default;
+
+test("genre references are resolved to the names in the genre list", () => {
+	const genres = [
+		[ "(17)", "Rock" ],
+		[ "13", "Pop" ],
+		[ "(4)Eurodisco", [ "Disco", "Eurodisco" ] ],
+		[ "(RX)(CR)", [ "Remix", "Cover" ] ],
+		[ "(17)(8)", [ "Rock", "Jazz" ] ],
+		[ "((Parenthesised)", "(Parenthesised)" ],
+		[ "Custom", "Custom" ]
+	];
+
+	for(const [ genre, resolved ] of genres) {
+		for(const version of [ 3, 4 ]) {
+			assert.deepStrictEqual(NodeID3.read(NodeID3.create({ genre }, { version })), { genre: resolved });
+		}
+	}
+});
+
+test("genres in the genre list are written as references with the numericGenres option", () => {
+	const genre = [ "Rock", "Jazz", "Custom" ];
+
+	for(const [ version, text ] of [ [ 3, "(17)(8)Custom" ], [ 4, "17\x008\x00Custom" ] ]) {
+		const tag = NodeID3.create({ genre }, { version, numericGenres: true, encoding: "ISO-8859-1" });
+
+		assert.ok(tag.includes(Buffer.from(text, "latin1")));
+		assert.deepStrictEqual(NodeID3.read(tag), { genre });
+	}
+});
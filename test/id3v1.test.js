@@ -0,0 +1,25 @@
+const { test } = require("node:test");
+const assert = require("assert");
+const ID3 = require("../dist/index.js");
+
+const NodeID3 = ID3.default;
+const audio = Buffer.alloc(1000, 0x55);
+
+/**
+ * Write a genre to an ID3v1 tag and read it back
+ * @param genre - The genre to write
+ * @returns The genre which was read from the ID3v1 tag
+ */
+const writeGenre = genre => NodeID3.read(NodeID3.remove(NodeID3.write(audio, { genre }, { id3v1: true }))).genre;
+
+test("the genre is written to an ID3v1 tag by name, number or reference", () => {
+	assert.strictEqual(writeGenre("Rock"), "Rock");
+	assert.strictEqual(writeGenre("13"), "Pop");
+	assert.strictEqual(writeGenre("(13)"), "Pop");
+	assert.strictEqual(writeGenre([ "Disco", "Eurodisco" ]), "Disco");
+});
+
+test("a genre which only starts with a number isn't written as a reference", () => {
+	assert.strictEqual(writeGenre("2 Unlimited"), undefined);
+	assert.strictEqual(writeGenre("80s Pop"), undefined);
+});
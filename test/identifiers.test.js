@@ -0,0 +1,25 @@
+const { test } = require("node:test");
+const assert = require("assert");
+const ID3 = require("../dist/index.js");
+
+const NodeID3 = ID3.default;
+
+test("unique file identifiers and private frames are written and read back", () => {
+	const frames = {
+		uniqueFileIdentifier: [ { owner: "http://musicbrainz.org", identifier: Buffer.from("8f3471b5-7e6a-48da-86a9-c1c07a0f47ae") } ],
+		private: [
+			{ owner: "WM/MediaClassPrimaryID", data: Buffer.from([ 0xBC, 0x7D, 0x60, 0xD1 ]) },
+			{ owner: "WM/MediaClassPrimaryID", data: Buffer.from([ 0 ]) }
+		]
+	};
+
+	for(const version of [ 3, 4 ]) {
+		assert.deepStrictEqual(NodeID3.read(NodeID3.create(frames, { version })), frames);
+	}
+});
+
+test("only the last unique file identifier of an owner is written", () => {
+	const uniqueFileIdentifier = [ { owner: "owner", identifier: Buffer.from("1") }, { owner: "owner", identifier: Buffer.from("2") } ];
+
+	assert.deepStrictEqual(NodeID3.read(NodeID3.create({ uniqueFileIdentifier })), { uniqueFileIdentifier: [ uniqueFileIdentifier[1] ] });
+});
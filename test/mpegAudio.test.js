@@ -0,0 +1,89 @@
+const { test } = require("node:test");
+const assert = require("assert");
+const ID3 = require("../dist/index.js");
+
+const NodeID3 = ID3.default;
+
+/**
+ * The size of an MPEG-1 layer III frame at 128 kbit/s and 44.1 kHz without padding
+ */
+const FRAME_SIZE = 417;
+
+/**
+ * Create MPEG-1 layer III audio at 128 kbit/s and 44.1 kHz in stereo
+ * @param frameCount - The number of frames
+ * @param writeFirstFrame - A function which writes a header into the first frame
+ * @returns The audio
+ */
+const createAudio = (frameCount, writeFirstFrame = () => undefined) => {
+	const audio = Buffer.alloc(frameCount * FRAME_SIZE);
+
+	for(let position = 0; position < audio.length; position += FRAME_SIZE) {
+		audio.writeUInt32BE(0xFFFB9000, position);
+	}
+
+	writeFirstFrame(audio);
+
+	return audio;
+};
+
+/**
+ * Write a Xing header with the frame and byte counts, followed by a LAME header, after the side information
+ * @param audio - The audio to write the headers into
+ */
+const writeXingAndLame = audio => {
+	audio.write("Xing", 36, "latin1");
+	audio.writeUInt32BE(3, 40);
+	audio.writeUInt32BE(100, 44);
+	audio.writeUInt32BE(100 * FRAME_SIZE, 48);
+	audio.write("LAME3.100", 52, "latin1");
+
+	//The delay of 576 and padding of 1000 samples as two 12 bit numbers
+	audio[73] = 0x24;
+	audio[74] = 0x03;
+	audio[75] = 0xE8;
+};
+
+test("constant bitrate audio is analyzed from its frame headers", () => {
+	const info = NodeID3.analyze(Buffer.concat([ NodeID3.create({ title: "Title" }), createAudio(100) ]));
+
+	assert.strictEqual(info.version, 1);
+	assert.strictEqual(info.layer, 3);
+	assert.strictEqual(info.bitrate, 128);
+	assert.strictEqual(info.sampleRate, 44100);
+	assert.strictEqual(info.isVariableBitrate, false);
+	assert.ok(Math.abs(info.duration - 2606.25) < 0.01);
+});
+
+test("the Xing and LAME headers give the frame count and the encoder delay and padding", () => {
+	const info = NodeID3.analyze(createAudio(100, writeXingAndLame));
+
+	assert.strictEqual(info.isVariableBitrate, true);
+	assert.strictEqual(info.frameCount, 100);
+	assert.strictEqual(info.encoderDelay, 576);
+	assert.strictEqual(info.encoderPadding, 1000);
+	assert.ok(Math.abs(info.duration - 2576.5) < 0.1);
+});
+
+test("the VBRI header gives the frame count and the encoder delay", () => {
+	const info = NodeID3.analyze(createAudio(100, audio => {
+		audio.write("VBRI", 36, "latin1");
+		audio.writeUInt16BE(1105, 42);
+		audio.writeUInt32BE(100 * FRAME_SIZE, 46);
+		audio.writeUInt32BE(100, 50);
+	}));
+
+	assert.strictEqual(info.isVariableBitrate, true);
+	assert.strictEqual(info.encoderDelay, 1105);
+	assert.ok(Math.abs(info.duration - 2587.19) < 0.01);
+});
+
+test("the length is filled in from the duration when writing", () => {
+	const data = NodeID3.write(createAudio(100, writeXingAndLame), { title: "Title" }, { fillLength: true });
+
+	assert.deepStrictEqual(NodeID3.read(data), { title: "Title", length: "2577" });
+});
+
+test("data without MPEG audio frames isn't analyzed", () => {
+	assert.strictEqual(NodeID3.analyze(Buffer.alloc(1000)), undefined);
+});
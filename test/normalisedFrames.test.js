@@ -0,0 +1,33 @@
+const { test } = require("node:test");
+const assert = require("assert");
+const ID3 = require("../dist/index.js");
+
+const NodeID3 = ID3.default;
+
+const normalisedFrames = {
+	trackNumber: { number: 4, total: 12 },
+	partOfSet: { number: 1 },
+	bpm: 120,
+	length: 215000,
+	recordingTime: "2020-05-17T12:30",
+	originalReleaseTime: "1999"
+};
+
+test("the normalised values are read back from either version", () => {
+	const frames = NodeID3.setNormalisedFrames({ title: "Title" }, normalisedFrames);
+
+	assert.strictEqual(frames.trackNumber, "4/12");
+	assert.strictEqual(frames.year, "2020");
+
+	for(const version of [ 3, 4 ]) {
+		assert.deepStrictEqual(NodeID3.getNormalisedFrames(NodeID3.read(NodeID3.create(frames, { version }))), normalisedFrames);
+	}
+});
+
+test("values which can't be parsed are left out", () => {
+	assert.deepStrictEqual(NodeID3.getNormalisedFrames({ trackNumber: "first", bpm: "fast", length: "" }), {});
+});
+
+test("timestamps which aren't in ISO 8601 format can't be set", () => {
+	assert.throws(() => NodeID3.setNormalisedFrames({}, { recordingTime: "17/05/2020" }));
+});
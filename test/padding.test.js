@@ -0,0 +1,65 @@
+const { test } = require("node:test");
+const assert = require("assert");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const ID3 = require("../dist/index.js");
+
+const NodeID3 = ID3.default;
+
+const audio = Buffer.from([ 0xFF, 0xFB, 0x90, 0x64, 1, 2, 3, 4 ]);
+
+/**
+ * Write data to a temporary file, pass its path to a callback and then delete it
+ * @param data - The data of the file
+ * @param callback - The function to call with the path
+ */
+const withFile = async (data, callback) => {
+	const file = path.join(os.tmpdir(), `id3-js-padding-${process.pid}.mp3`);
+	fs.writeFileSync(file, data);
+
+	try {
+		await callback(file);
+	} finally {
+		fs.unlinkSync(file);
+	}
+};
+
+test("the padding is written as zero bytes after the frames", () => {
+	const unpadded = NodeID3.create({ title: "Title" }, { version: 4 });
+	const tag = NodeID3.create({ title: "Title" }, { version: 4, padding: 100 });
+
+	assert.strictEqual(tag.length, unpadded.length + 100);
+	assert.deepStrictEqual(tag.subarray(unpadded.length), Buffer.alloc(100));
+	assert.deepStrictEqual(NodeID3.read(tag), { title: "Title" });
+});
+
+test("a tag which fits in the padding of the file's tag is written over it", async () => {
+	const data = Buffer.concat([ NodeID3.create({ title: "Old" }, { padding: 200 }), audio ]);
+
+	await withFile(data, file => {
+		NodeID3.write(file, { title: "New title", artist: "Artist" }, { version: 4 });
+
+		const written = fs.readFileSync(file);
+		assert.strictEqual(written.length, data.length);
+		assert.deepStrictEqual(written.subarray(-audio.length), audio);
+		assert.deepStrictEqual(NodeID3.read(written), { title: "New title", artist: "Artist" });
+	});
+
+	await withFile(data, async file => {
+		await NodeID3.updateAsync({ artist: "Artist" }, file);
+
+		const written = fs.readFileSync(file);
+		assert.strictEqual(written.length, data.length);
+		assert.deepStrictEqual(NodeID3.read(written), { title: "Old", artist: "Artist" });
+	});
+});
+
+test("the file is rewritten when the tag doesn't fit in the space of the old one", async () => {
+	await withFile(Buffer.concat([ NodeID3.create({ title: "Old" }), audio ]), file => {
+		NodeID3.write(file, { title: "A longer title" });
+
+		const written = fs.readFileSync(file);
+		assert.deepStrictEqual(written, Buffer.concat([ NodeID3.create({ title: "A longer title" }), audio ]));
+	});
+});
@@ -0,0 +1,25 @@
+const { test } = require("node:test");
+const assert = require("assert");
+const ID3 = require("../dist/index.js");
+
+const NodeID3 = ID3.default;
+
+const png = Buffer.from("89504e470d0a1a0a0000000d49484452", "hex");
+const jpeg = Buffer.from("ffd8ffe000104a464946", "hex");
+
+test("pictures keep their MIME type, picture type and description", () => {
+	const image = [
+		{ mime: "image/png", type: ID3.PictureType.BackCover, description: "Back", data: png },
+		{ mime: "image/jpeg", type: ID3.PictureType.FrontCover, description: "", data: jpeg }
+	];
+
+	for(const version of [ 3, 4 ]) {
+		assert.deepStrictEqual(NodeID3.read(NodeID3.create({ image }, { version })), { image });
+	}
+});
+
+test("raw image data is written as the front cover", () => {
+	assert.deepStrictEqual(NodeID3.read(NodeID3.create({ image: jpeg })), {
+		image: [ { mime: "image/jpeg", type: ID3.PictureType.FrontCover, description: "", data: jpeg } ]
+	});
+});
@@ -0,0 +1,34 @@
+const { test } = require("node:test");
+const assert = require("assert");
+const ID3 = require("../dist/index.js");
+
+const NodeID3 = ID3.default;
+
+test("popularimeters and play counters are written and read back", () => {
+	const frames = {
+		popularimeter: [ { email: "player@example.com", rating: 196, counter: 12 }, { email: "other@example.com", rating: 0 } ],
+		playCounter: 5
+	};
+
+	for(const version of [ 3, 4 ]) {
+		assert.deepStrictEqual(NodeID3.read(NodeID3.create(frames, { version })), frames);
+	}
+});
+
+test("only the last popularimeter of an email address is written", () => {
+	const popularimeter = [ { email: "player@example.com", rating: 1 }, { email: "player@example.com", rating: 255 } ];
+
+	assert.deepStrictEqual(NodeID3.read(NodeID3.create({ popularimeter })), { popularimeter: [ popularimeter[1] ] });
+});
+
+test("counters larger than the largest safe integer are read as a bigint", () => {
+	const playCounter = 2n ** 64n;
+	const tag = NodeID3.create({ playCounter, popularimeter: [ { email: "", rating: 128, counter: playCounter + 1n } ] });
+
+	assert.deepStrictEqual(NodeID3.read(tag), { playCounter, popularimeter: [ { email: "", rating: 128, counter: playCounter + 1n } ] });
+});
+
+test("ratings are converted to and from stars", () => {
+	assert.deepStrictEqual([ 1, 2, 3, 4, 5 ].map(stars => NodeID3.starsToRating(stars)), [ 1, 64, 128, 196, 255 ]);
+	assert.deepStrictEqual([ 0, 1, 64, 100, 128, 196, 255 ].map(rating => NodeID3.ratingToStars(rating)), [ 0, 1, 2, 3, 3, 4, 5 ]);
+});
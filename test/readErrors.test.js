@@ -0,0 +1,98 @@
+const { test } = require("node:test");
+const assert = require("assert");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const ID3 = require("../dist/index.js");
+
+const NodeID3 = ID3.default;
+
+test("a tag which is cut off is read up to where it ends, with warnings", () => {
+	const tag = NodeID3.create({ title: "Title", artist: "Artist" }, { version: 4 });
+	const { frames, warnings } = NodeID3.readWithWarnings(tag.slice(0, 38));
+
+	assert.deepStrictEqual(frames, { title: "Title" });
+	assert.ok(warnings[0] instanceof ID3.InvalidTagSizeError);
+	assert.ok(warnings[1] instanceof ID3.TruncatedFrameError);
+	assert.strictEqual(warnings[1].frameId, "TPE1");
+});
+
+test("strict mode throws the first problem", () => {
+	const tag = NodeID3.create({ title: "Title", artist: "Artist" }, { version: 4 });
+
+	assert.throws(() => NodeID3.read(tag.slice(0, 38), { mode: "strict" }), ID3.InvalidTagSizeError);
+});
+
+test("an unsupported version is reported", () => {
+	const tag = NodeID3.create({ title: "Title" });
+	tag[3] = 9;
+
+	const { frames, warnings } = NodeID3.readWithWarnings(tag);
+
+	assert.deepStrictEqual(frames, {});
+	assert.ok(warnings[0] instanceof ID3.UnsupportedVersionError);
+});
+
+test("an invalid frame ID is reported", () => {
+	const tag = NodeID3.create({ title: "Title" });
+	tag.write("ab!d", 10, "latin1");
+
+	const { warnings } = NodeID3.readWithWarnings(tag);
+
+	assert.ok(warnings[0] instanceof ID3.InvalidFrameError);
+	assert.strictEqual(warnings[0].frameId, "ab!d");
+});
+
+test("an extended header which is cut off is reported rather than thrown", () => {
+	for(const version of [ 3, 4 ]) {
+		const tag = Buffer.from([ 0x49, 0x44, 0x33, version, 0x00, 0x40, 0x00, 0x00, 0x00, 0x00 ]);
+
+		assert.deepStrictEqual(NodeID3.read(tag), {});
+		assert.ok(NodeID3.readWithWarnings(tag).warnings[0] instanceof ID3.InvalidTagSizeError);
+		assert.throws(() => NodeID3.read(tag, { mode: "strict" }), ID3.InvalidTagSizeError);
+	}
+});
+
+test("an extended header with a size larger than the tag is reported", () => {
+	const tag = NodeID3.create({ title: "Title" }, { version: 3, extendedHeader: { crc: true } });
+	tag.writeUInt32BE(0x7FFF, 10);
+
+	const { warnings } = NodeID3.readWithWarnings(tag);
+
+	assert.ok(warnings[0] instanceof ID3.InvalidTagSizeError);
+});
+
+test("the frames of a tag whose extended header has an invalid size aren't read, but those of other tags are", () => {
+	const tag = NodeID3.create({ title: "Title" }, { version: 4, extendedHeader: { crc: true } });
+	tag[13] = 3;
+	const data = Buffer.concat([ tag, Buffer.alloc(100), NodeID3.create({ artist: "Artist" }, { version: 4, footer: true }) ]);
+	const { frames, warnings } = NodeID3.readWithWarnings(data);
+
+	assert.deepStrictEqual(frames, { artist: "Artist" });
+	assert.strictEqual(warnings.length, 1);
+	assert.ok(warnings[0] instanceof ID3.InvalidTagSizeError);
+});
+
+test("a valid extended header is read", () => {
+	const tag = NodeID3.create({ title: "Title" }, { version: 4, extendedHeader: { crc: true, isUpdate: true } });
+
+	assert.deepStrictEqual(NodeID3.read(tag, { mode: "strict" }), { title: "Title" });
+	assert.strictEqual(NodeID3.readExtendedHeader(tag).crcValid, true);
+});
+
+test("a file whose tag claims to be bigger than the file is read up to its end", async () => {
+	const file = path.join(os.tmpdir(), `id3-js-size-${process.pid}.mp3`);
+	const tag = NodeID3.create({ title: "Title" }, { version: 4 });
+	tag.fill(0x7F, 6, 10);
+	fs.writeFileSync(file, tag);
+
+	try {
+		const { frames, warnings } = NodeID3.readWithWarnings(file);
+
+		assert.deepStrictEqual(frames, { title: "Title" });
+		assert.ok(warnings[0] instanceof ID3.InvalidTagSizeError);
+		assert.deepStrictEqual(await NodeID3.readAsync(file), { title: "Title" });
+	} finally {
+		fs.unlinkSync(file);
+	}
+});
@@ -0,0 +1,56 @@
+const { test } = require("node:test");
+const assert = require("assert");
+const ID3 = require("../dist/index.js");
+
+const NodeID3 = ID3.default;
+
+test("absent values are left out rather than set to undefined", () => {
+	const frames = NodeID3.setReplayGain({}, { trackGain: -3 }, { forms: [ "relativeVolumeAdjustment" ] });
+
+	assert.deepStrictEqual(frames, {
+		relativeVolumeAdjustment: [ { identification: "track", channels: [ { channelType: ID3.ChannelType.MasterVolume, volumeAdjustment: -3 } ] } ]
+	});
+	assert.deepStrictEqual(NodeID3.getReplayGain(NodeID3.read(NodeID3.create(frames, { version: 4 }))), { trackGain: -3 });
+});
+
+/**
+ * Check that the ReplayGain values are within a tolerance of the expected values
+ * @param actual - The values which were read
+ * @param expected - The values which were written
+ * @param tolerance - The largest difference allowed
+ */
+const assertReplayGainClose = (actual, expected, tolerance) => {
+	assert.deepStrictEqual(Object.keys(actual), Object.keys(expected));
+	Object.keys(expected).forEach(key => assert.ok(Math.abs(actual[key] - expected[key]) <= tolerance, `${key} is ${actual[key]}`));
+};
+
+const replayGain = { trackGain: -6.48, trackPeak: 0.988312, albumGain: -5.5, albumPeak: 1 };
+
+test("ReplayGain values are read back from the user defined text frames", () => {
+	const frames = NodeID3.setReplayGain({ title: "Title" }, replayGain);
+	const read = NodeID3.read(NodeID3.create(frames));
+
+	assert.strictEqual(read.title, "Title");
+	assert.deepStrictEqual(read.userDefinedText.find(({ description }) => description === "REPLAYGAIN_TRACK_GAIN").value, "-6.48 dB");
+	assert.deepStrictEqual(NodeID3.getReplayGain(read), replayGain);
+});
+
+test("ReplayGain values are read back from RVA2 and RVAD frames to within their precision", () => {
+	const relativeVolumeAdjustment = NodeID3.setReplayGain({}, replayGain, { forms: [ "relativeVolumeAdjustment" ] });
+	const volumeAdjustment = NodeID3.setReplayGain({}, replayGain, { forms: [ "volumeAdjustment" ] });
+
+	assertReplayGainClose(NodeID3.getReplayGain(NodeID3.read(NodeID3.create(relativeVolumeAdjustment, { version: 4 }))), replayGain, 1 / 512);
+	assertReplayGainClose(NodeID3.getReplayGain(NodeID3.read(NodeID3.create(volumeAdjustment, { version: 3 }))), {
+		trackGain: replayGain.trackGain,
+		trackPeak: replayGain.trackPeak
+	}, 1 / 512);
+});
+
+test("setting ReplayGain values replaces the existing ones", () => {
+	const frames = NodeID3.setReplayGain(NodeID3.setReplayGain({}, replayGain), { trackGain: 1 }, {
+		forms: [ "userDefinedText", "relativeVolumeAdjustment" ]
+	});
+
+	assert.deepStrictEqual(frames.userDefinedText, [ { description: "REPLAYGAIN_TRACK_GAIN", value: "1.00 dB" } ]);
+	assert.deepStrictEqual(NodeID3.getReplayGain(NodeID3.read(NodeID3.create(frames, { version: 4 }))), { trackGain: 1 });
+});
@@ -0,0 +1,41 @@
+const { test } = require("node:test");
+const assert = require("assert");
+const ID3 = require("../dist/index.js");
+
+const NodeID3 = ID3.default;
+
+test("synchronised lyrics are written and read back", () => {
+	const synchronisedLyrics = [
+		{
+			language: "deu",
+			timestampFormat: ID3.TimestampFormat.MpegFrames,
+			contentType: ID3.SynchronisedTextType.Chord,
+			description: "Akkorde",
+			lyrics: [ { text: "Am", timestamp: 0 }, { text: "Ö", timestamp: 250 } ]
+		}
+	];
+
+	for(const version of [ 3, 4 ]) {
+		assert.deepStrictEqual(NodeID3.read(NodeID3.create({ synchronisedLyrics }, { version })), { synchronisedLyrics });
+	}
+});
+
+test("LRC lyrics are converted with their repeated timestamps and offset", () => {
+	const synchronisedLyrics = NodeID3.lrcToSynchronisedLyrics("[ar:Artist]\n[offset:+100]\n[00:01.50][00:10.00]Hello\n[00:05.25]World\n");
+
+	assert.deepStrictEqual(synchronisedLyrics, {
+		language: "eng",
+		timestampFormat: ID3.TimestampFormat.Milliseconds,
+		contentType: ID3.SynchronisedTextType.Lyrics,
+		description: "",
+		lyrics: [ { text: "Hello", timestamp: 1400 }, { text: "World", timestamp: 5150 }, { text: "Hello", timestamp: 9900 } ]
+	});
+	assert.deepStrictEqual(NodeID3.read(NodeID3.create({ synchronisedLyrics })), { synchronisedLyrics: [ synchronisedLyrics ] });
+	assert.strictEqual(NodeID3.synchronisedLyricsToLrc(synchronisedLyrics), "[00:01.40]Hello\n[00:05.15]World\n[00:09.90]Hello");
+});
+
+test("only lyrics with millisecond timestamps are converted to LRC", () => {
+	const synchronisedLyrics = NodeID3.lrcToSynchronisedLyrics("[00:01.00]Hello");
+
+	assert.throws(() => NodeID3.synchronisedLyricsToLrc({ ...synchronisedLyrics, timestampFormat: ID3.TimestampFormat.MpegFrames }));
+});
@@ -0,0 +1,94 @@
+const { test } = require("node:test");
+const assert = require("assert");
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const ID3 = require("../dist/index.js");
+
+const NodeID3 = ID3.default;
+const audio = Buffer.alloc(1000, 0x55);
+
+test("a tag appended with a footer is located and read", () => {
+	const prepended = NodeID3.create({ title: "First" }, { version: 4, padding: 20 });
+	const appended = NodeID3.create({ artist: "Appended" }, { version: 4, footer: true, padding: 50 });
+	const data = Buffer.concat([ prepended, audio, appended ]);
+
+	assert.strictEqual(appended.toString("latin1", appended.length - 10, appended.length - 7), "3DI");
+	assert.strictEqual(appended.length, NodeID3.create({ artist: "Appended" }, { version: 4 }).length + 10);
+
+	assert.deepStrictEqual(NodeID3.locate(data), [
+		{ position: 0, size: prepended.length, version: 4, isAppended: false },
+		{ position: prepended.length + 1000, size: appended.length, version: 4, isAppended: true }
+	]);
+	assert.deepStrictEqual(NodeID3.read(data), { title: "First" });
+	assert.deepStrictEqual(NodeID3.read(data, { tagPosition: prepended.length + 1000 }), { artist: "Appended" });
+});
+
+test("an appended tag is found before an ID3v1 tag and can be updated where it is", () => {
+	const appended = NodeID3.create({ artist: "Appended" }, { version: 4, footer: true });
+	const data = NodeID3.write(Buffer.concat([ audio, appended ]), { title: "v1" }, { tagPosition: 1000, id3v1: true });
+
+	const [ location ] = NodeID3.locate(data);
+	assert.deepStrictEqual(location.position, 1000);
+	assert.ok(location.isAppended);
+
+	const updated = NodeID3.update({ album: "Album" }, data, { tagPosition: 1000 });
+	assert.deepStrictEqual(NodeID3.read(updated, { tagPosition: 1000 }), { title: "v1", album: "Album" });
+	assert.ok(updated.slice(0, 1000).equals(audio));
+});
+
+test("tags which follow the first tag are merged if they are updates", () => {
+	const first = NodeID3.create({ title: "First" }, { version: 4 });
+	const update = NodeID3.create({ album: "Update" }, { version: 4, extendedHeader: { isUpdate: true } });
+	const independent = NodeID3.create({ album: "Independent" }, { version: 4 });
+
+	assert.strictEqual(NodeID3.locate(Buffer.concat([ first, update, audio ])).length, 2);
+	assert.deepStrictEqual(NodeID3.read(Buffer.concat([ first, update, audio ])), { title: "First", album: "Update" });
+	assert.deepStrictEqual(NodeID3.read(Buffer.concat([ first, independent, audio ])), { title: "First" });
+});
+
+test("a SEEK frame points to the next tag", () => {
+	const seekBody = Buffer.alloc(4);
+	seekBody.writeUInt32BE(audio.length, 0);
+
+	const title = NodeID3.create({ title: "Seek" }, { version: 4 });
+	const body = Buffer.concat([ title.slice(10), Buffer.from("SEEK\0\0\0\x04\0\0", "latin1"), seekBody ]);
+	const header = Buffer.from(title.slice(0, 10));
+	header[9] = body.length;
+
+	const next = NodeID3.create({ artist: "Seeked" }, { version: 4, extendedHeader: { isUpdate: true } });
+	const data = Buffer.concat([ header, body, audio, next, audio ]);
+
+	assert.deepStrictEqual(NodeID3.locate(data).map(({ position }) => position), [ 0, header.length + body.length + 1000 ]);
+	assert.strictEqual(NodeID3.read(data).artist, "Seeked");
+
+	//The offset of the SEEK frame would be wrong in the new tag
+	assert.strictEqual(NodeID3.read(NodeID3.update({ album: "Album" }, data)).unknownFrames, undefined);
+});
+
+test("a single tag is removed by its position", () => {
+	const prepended = NodeID3.create({ title: "First" }, { version: 4 });
+	const appended = NodeID3.create({ artist: "Appended" }, { version: 4, footer: true });
+	const data = Buffer.concat([ prepended, audio, appended ]);
+
+	assert.ok(NodeID3.remove(data, { tagPosition: 0 }).equals(Buffer.concat([ audio, appended ])));
+	assert.ok(NodeID3.remove(data).equals(audio));
+	assert.throws(() => NodeID3.remove(data, { tagPosition: 5 }));
+});
+
+test("writing a tag with a footer to a file doesn't leave the old tag behind", () => {
+	const file = path.join(os.tmpdir(), `id3-js-${process.pid}.mp3`);
+	fs.writeFileSync(file, Buffer.concat([ NodeID3.create({ title: "Old" }, { padding: 200 }), audio ]));
+
+	try {
+		NodeID3.write(file, { title: "New" }, { version: 4, footer: true });
+
+		const data = fs.readFileSync(file);
+		const [ location ] = NodeID3.locate(data);
+
+		assert.ok(data.slice(location.size).equals(audio));
+		assert.deepStrictEqual(NodeID3.read(file), { title: "New" });
+	} finally {
+		fs.unlinkSync(file);
+	}
+});
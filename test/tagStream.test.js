@@ -0,0 +1,45 @@
+const { test } = require("node:test");
+const assert = require("assert");
+const { Readable } = require("stream");
+const ID3 = require("../dist/index.js");
+
+const NodeID3 = ID3.default;
+const audio = Buffer.alloc(1000, 0x55);
+
+/**
+ * Pass data through a stream in small chunks
+ * @param data - The data to pass through
+ * @param stream - The stream to pass it through
+ * @returns A promise which resolves to the data which came out
+ */
+const pipe = (data, stream) => new Promise((resolve, reject) => {
+	const chunks = [];
+
+	Readable.from(Array.from({ length: Math.ceil(data.length / 7) }, (_, index) => data.slice(index * 7, index * 7 + 7)))
+		.pipe(stream)
+		.on("data", chunk => chunks.push(chunk))
+		.on("end", () => resolve(Buffer.concat(chunks)))
+		.on("error", reject);
+});
+
+test("the write stream replaces the tag", async () => {
+	const output = await pipe(Buffer.concat([ NodeID3.create({ title: "Old" }), audio ]), NodeID3.createWriteStream({ title: "New" }));
+
+	assert.ok(output.equals(Buffer.concat([ NodeID3.create({ title: "New" }), audio ])));
+});
+
+test("the write stream drops the footer of the old tag", async () => {
+	const tag = NodeID3.create({ title: "Old" }, { version: 4, footer: true });
+	const output = await pipe(Buffer.concat([ tag, audio ]), NodeID3.createWriteStream({ title: "New" }));
+
+	assert.ok(output.equals(Buffer.concat([ NodeID3.create({ title: "New" }), audio ])));
+});
+
+test("the read stream emits the tag and passes the data through", async () => {
+	const data = Buffer.concat([ NodeID3.create({ title: "Title" }, { version: 4, footer: true }), audio ]);
+	const stream = NodeID3.createReadStream();
+	const tag = new Promise(resolve => stream.on("tag", resolve));
+
+	assert.ok((await pipe(data, stream)).equals(data));
+	assert.deepStrictEqual(await tag, { title: "Title" });
+});
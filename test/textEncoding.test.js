@@ -0,0 +1,51 @@
+const { test } = require("node:test");
+const assert = require("assert");
+const ID3 = require("../dist/index.js");
+
+const NodeID3 = ID3.default;
+
+/**
+ * Get the encoding byte of a frame
+ * @param tag - The tag which contains the frame
+ * @param id - The ID of the frame
+ * @returns The encoding byte which the body of the frame starts with
+ */
+const getEncodingByte = (tag, id) => tag[tag.indexOf(Buffer.from(id, "latin1")) + 10];
+
+const frames = { title: "Ωmega", artist: "Plain", comment: [ { language: "eng", shortText: "Descriptor", text: "Über" } ] };
+
+test("text is written in the chosen encoding and read back", () => {
+	const encodings = [
+		[ "UTF-16", 3, 1 ],
+		[ "UTF-16", 4, 1 ],
+		[ "UTF-16BE", 4, 2 ],
+		[ "UTF-8", 4, 3 ],
+		[ "UTF-16BE", 3, 1 ],
+		[ "UTF-8", 3, 1 ]
+	];
+
+	for(const [ encoding, version, encodingByte ] of encodings) {
+		const tag = NodeID3.create(frames, { version, encoding });
+
+		assert.strictEqual(getEncodingByte(tag, "TIT2"), encodingByte, `${encoding} in ID3v2.${version}.0`);
+		assert.strictEqual(getEncodingByte(tag, "COMM"), encodingByte, `${encoding} in ID3v2.${version}.0`);
+		assert.deepStrictEqual(NodeID3.read(tag), frames);
+	}
+});
+
+test("characters which ISO-8859-1 can't represent are written as question marks", () => {
+	const tag = NodeID3.create(frames, { version: 4, encoding: "ISO-8859-1" });
+
+	assert.strictEqual(getEncodingByte(tag, "TIT2"), 0);
+	assert.deepStrictEqual(NodeID3.read(tag), { ...frames, title: "?mega" });
+});
+
+test("the automatic encoding only uses Unicode for text which doesn't fit in ISO-8859-1", () => {
+	for(const [ version, encodingByte ] of [ [ 3, 1 ], [ 4, 3 ] ]) {
+		const tag = NodeID3.create(frames, { version, encoding: "auto" });
+
+		assert.strictEqual(getEncodingByte(tag, "TIT2"), encodingByte);
+		assert.strictEqual(getEncodingByte(tag, "TPE1"), 0);
+		assert.deepStrictEqual(NodeID3.read(tag), frames);
+	}
+});
@@ -0,0 +1,40 @@
+const { test } = require("node:test");
+const assert = require("assert");
+const ID3 = require("../dist/index.js");
+
+const NodeID3 = ID3.default;
+
+test("multiple values round-trip as arrays in ID3v2.4.0", () => {
+	const tags = { artist: [ "Artist A", "Artist B" ], composer: "Composer", title: "A/B" };
+
+	assert.deepStrictEqual(NodeID3.read(NodeID3.create(tags, { version: 4 })), tags);
+});
+
+test("multiple values are joined with the separator in ID3v2.3.0", () => {
+	const tag = NodeID3.create({ artist: [ "Artist A", "Artist B" ] }, { separator: "; " });
+
+	assert.deepStrictEqual(NodeID3.read(tag, { separator: ";" }), { artist: [ "Artist A", "Artist B" ] });
+	assert.deepStrictEqual(NodeID3.read(tag, { separator: "" }), { artist: "Artist A; Artist B" });
+});
+
+test("the pairs of the involved people and musician credits round-trip", () => {
+	const tags = {
+		involvedPeople: [ "producer", "Producer", "mixing", "Mixer" ],
+		musicianCredits: [ "guitar", "Guitarist", "drums", "Drummer" ]
+	};
+
+	assert.deepStrictEqual(NodeID3.read(NodeID3.create(tags, { version: 4 })), tags);
+});
+
+test("an empty value keeps the place of its pair", () => {
+	const tags = { involvedPeople: [ "producer", "", "mixer", "Mixer" ] };
+
+	assert.deepStrictEqual(NodeID3.read(NodeID3.create(tags, { version: 4 })), tags);
+	assert.deepStrictEqual(NodeID3.read(NodeID3.create(tags, { version: 4, encoding: "UTF-16" })), tags);
+});
+
+test("genre references are resolved to their names", () => {
+	const tag = NodeID3.create({ genre: "(4)Eurodisco" });
+
+	assert.deepStrictEqual(NodeID3.read(tag), { genre: [ "Disco", "Eurodisco" ] });
+});
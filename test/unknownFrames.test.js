@@ -0,0 +1,60 @@
+const { test } = require("node:test");
+const assert = require("assert");
+const ID3 = require("../dist/index.js");
+
+const NodeID3 = ID3.default;
+
+/**
+ * Create an ID3v2.2.0 tag
+ * @param frames - The three character IDs and bodies of the frames
+ * @returns The tag
+ */
+const createV220Tag = frames => {
+	const body = Buffer.concat(frames.map(([ id, data ]) => Buffer.concat([
+		Buffer.from(id, "latin1"),
+		Buffer.from([ 0, 0, data.length ]),
+		data
+	])));
+
+	return Buffer.concat([ Buffer.from([ 0x49, 0x44, 0x33, 2, 0, 0, 0, 0, 0, body.length ]), body ]);
+};
+
+test("unknown frames are written back unchanged", () => {
+	const tag = NodeID3.create({ title: "Title", unknownFrames: [ { id: "XYZW", flags: {}, body: Buffer.from([ 1, 2, 3 ]) } ] });
+	const { unknownFrames } = NodeID3.read(NodeID3.update({ artist: "Artist" }, tag));
+
+	assert.deepStrictEqual(unknownFrames.map(({ id, body }) => ({ id, body })), [ { id: "XYZW", body: Buffer.from([ 1, 2, 3 ]) } ]);
+});
+
+test("encrypted frames are kept as they were read, along with their flags", () => {
+	const frame = {
+		id: "TIT2",
+		flags: { encryption: true, groupingIdentity: true, dataLengthIndicator: true },
+		body: Buffer.from([ 1, 2, 3, 4 ]),
+		groupId: 5,
+		encryptionMethod: 0x80,
+		dataLength: 9
+	};
+	const tag = NodeID3.create({ unknownFrames: [ frame ] }, { version: 4 });
+
+	assert.deepStrictEqual(NodeID3.read(NodeID3.update({ artist: "Artist" }, tag, { version: 4 })), {
+		artist: "Artist",
+		unknownFrames: [ frame ]
+	});
+});
+
+test("unknown frames which ask to be discarded when the tag is altered are left out", () => {
+	const unknownFrames = [ { id: "XYZW", flags: { tagAlterPreservation: true }, body: Buffer.from([ 1 ]) } ];
+
+	assert.deepStrictEqual(NodeID3.read(NodeID3.create({ title: "Title", unknownFrames })), { title: "Title" });
+});
+
+test("unknown ID3v2.2.0 frames which can't be written are reported", () => {
+	const frames = NodeID3.read(createV220Tag([ [ "TT2", Buffer.from("\0Title", "latin1") ], [ "XYZ", Buffer.from([ 1, 2, 3 ]) ] ]));
+	const warnings = [];
+
+	assert.deepStrictEqual(NodeID3.read(NodeID3.create(frames, { warnings })), { title: "Title" });
+	assert.strictEqual(warnings.length, 1);
+	assert.ok(warnings[0] instanceof ID3.UnwritableFrameError);
+	assert.strictEqual(warnings[0].frameId, "XYZ");
+});
@@ -0,0 +1,25 @@
+const { test } = require("node:test");
+const assert = require("assert");
+const ID3 = require("../dist/index.js");
+
+const NodeID3 = ID3.default;
+
+/**
+ * Check whether a tag contains a false MPEG frame sync
+ * @param tag - The tag
+ * @returns Whether a 0xFF byte is followed by a byte with its top three bits set
+ */
+const hasFalseSync = tag => tag.some((byte, index) => byte === 0xFF && tag[index + 1] >= 0xE0);
+
+test("unsynchronised tags have no false frame syncs and are decoded when reading", () => {
+	const frames = { title: "ÿà", private: [ { owner: "owner", data: Buffer.from([ 0xFF, 0xE0, 0xFF, 0x00, 0xFF ]) } ] };
+
+	for(const version of [ 3, 4 ]) {
+		const tag = NodeID3.create(frames, { version, unsynchronisation: true, encoding: "ISO-8859-1" });
+
+		assert.ok(hasFalseSync(NodeID3.create(frames, { version, encoding: "ISO-8859-1" })));
+		assert.ok(!hasFalseSync(tag));
+		assert.strictEqual(tag[5] & 0x80, 0x80);
+		assert.deepStrictEqual(NodeID3.read(tag), frames);
+	}
+});
@@ -0,0 +1,23 @@
+const { test } = require("node:test");
+const assert = require("assert");
+const ID3 = require("../dist/index.js");
+
+const NodeID3 = ID3.default;
+
+test("URL frames are written and read back", () => {
+	const frames = {
+		copyrightUrl: "https://example.com/copyright",
+		commercialUrl: [ "https://example.com/buy", "https://example.org/buy" ],
+		userDefinedUrl: [ { description: "Lyrics", url: "https://example.com/lyrics" }, { description: "", url: "https://example.com" } ]
+	};
+
+	for(const version of [ 3, 4 ]) {
+		assert.deepStrictEqual(NodeID3.read(NodeID3.create(frames, { version })), frames);
+	}
+});
+
+test("the URL frames which there can be more than one of are always read as an array", () => {
+	const tag = NodeID3.create({ artistUrl: "https://example.com/artist" });
+
+	assert.deepStrictEqual(NodeID3.read(tag), { artistUrl: [ "https://example.com/artist" ] });
+});
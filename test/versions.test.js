@@ -0,0 +1,42 @@
+const { test } = require("node:test");
+const assert = require("assert");
+const ID3 = require("../dist/index.js");
+
+const NodeID3 = ID3.default;
+
+test("the involved people and musician credits are merged into the involved people list in ID3v2.3.0", () => {
+	const tag = NodeID3.create({ involvedPeople: [ "producer", "Producer" ], musicianCredits: [ "guitar", "" ] }, { version: 3 });
+
+	assert.deepStrictEqual(NodeID3.read(tag), { involvedPeopleList: [ "producer", "Producer", "guitar", "" ] });
+});
+
+test("the involved people list becomes the involved people in ID3v2.4.0", () => {
+	const tag = NodeID3.create({ involvedPeopleList: [ "producer", "Producer" ] }, { version: 3 });
+	const updated = NodeID3.update({ title: "Title" }, tag, { version: 4 });
+
+	assert.deepStrictEqual(NodeID3.read(updated), { title: "Title", involvedPeople: [ "producer", "Producer" ] });
+});
+
+test("ID3v2.4.0 tags have synchsafe frame sizes and null separated values", () => {
+	const tag = NodeID3.create({ title: "x".repeat(200), artist: [ "A", "B" ] }, { version: 4, encoding: "ISO-8859-1" });
+
+	assert.deepStrictEqual(tag.subarray(0, 4), Buffer.from("ID3\x04", "latin1"));
+	assert.deepStrictEqual(tag.subarray(10, 18), Buffer.from([ 0x54, 0x49, 0x54, 0x32, 0, 0, 0x01, 0x49 ]));
+	assert.ok(tag.includes(Buffer.from("\0A\0B", "latin1")));
+	assert.deepStrictEqual(NodeID3.read(tag), { title: "x".repeat(200), artist: [ "A", "B" ] });
+});
+
+test("the dates are merged into timestamps in ID3v2.4.0 and split back up in ID3v2.3.0", () => {
+	const frames = { year: "2020", date: "1705", time: "1230", originalYear: "1999" };
+	const tag = NodeID3.create(frames, { version: 4 });
+
+	assert.deepStrictEqual(NodeID3.read(tag), { recordingTime: "2020-05-17T12:30", originalReleaseTime: "1999" });
+	assert.deepStrictEqual(NodeID3.read(NodeID3.update({}, tag, { version: 3 })), frames);
+});
+
+test("frames which don't exist in ID3v2.4.0 are left out", () => {
+	const tag = NodeID3.create({ title: "Title", size: "123" }, { version: 3 });
+
+	assert.deepStrictEqual(NodeID3.read(tag), { title: "Title", size: "123" });
+	assert.deepStrictEqual(NodeID3.read(NodeID3.update({}, tag, { version: 4 })), { title: "Title" });
+});